@@ -6,12 +6,15 @@ import PlanPreview from './components/PlanPreview';
 import ExportControls from './components/ExportControls';
 import { analyzeSite } from './services/geminiService';
 import { generateIrrigationDesign } from './engine/designEngine';
-import { renderAllSheets, renderIrrigationLayerFeet } from './renderer/svgRenderer';
+import { renderAllSheets, renderIrrigationLayerFeet, renderHeatmapLayerFeet } from './renderer/svgRenderer';
 import { generateSitePlanFromAnalysis } from './services/sitePlanGenerator';
 import { composePlanSheets } from './services/planCompositor';
+import { calibrateSiteAnalysis } from './services/siteCalibration';
+import { applyMarkedIrrigationAreas } from './services/siteMarkup';
+import { DESIGN_RULES } from './data/designRules';
 import { AppState, WorkflowStatus, ProjectInput } from './types';
 
-type PreviewMode = 'combined' | 'sitePlan' | 'irrigation';
+type PreviewMode = 'combined' | 'sitePlan' | 'irrigation' | 'heatmap';
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
@@ -19,6 +22,7 @@ const App: React.FC = () => {
     siteAnalysis: null,
     sitePlanSvg: null,
     irrigationSvg: null,
+    heatmapSvg: null,
     design: null,
     planSheets: [],
     status: WorkflowStatus.IDLE,
@@ -27,6 +31,7 @@ const App: React.FC = () => {
   });
   const [activeSheet, setActiveSheet] = useState(0);
   const [previewMode, setPreviewMode] = useState<PreviewMode>('combined');
+  const [includeCoverageSheet, setIncludeCoverageSheet] = useState(false);
 
   const handleProjectSubmit = async (input: ProjectInput) => {
     setState(prev => ({
@@ -38,12 +43,19 @@ const App: React.FC = () => {
     }));
 
     try {
-      const analysis = await analyzeSite(
+      const rawAnalysis = await analyzeSite(
         input.droneImageBase64,
         input.droneImageMimeType,
         input
       );
 
+      // Replace the AI's guessed dimensions with ones measured from the scale reference,
+      // then limit the zones to the areas the user traced
+      const analysis = applyMarkedIrrigationAreas(
+        calibrateSiteAnalysis(rawAnalysis, input.imageMarkup),
+        input.imageMarkup
+      );
+
       setState(prev => ({
         ...prev,
         siteAnalysis: analysis,
@@ -72,7 +84,7 @@ const App: React.FC = () => {
 
     try {
       // Step 1: Generate clean 2D architectural site plan
-      const sitePlanSvg = generateSitePlanFromAnalysis(state.siteAnalysis);
+      const sitePlanSvg = generateSitePlanFromAnalysis(state.siteAnalysis, state.projectInput.imageMarkup);
 
       setState(prev => ({
         ...prev,
@@ -115,6 +127,11 @@ const App: React.FC = () => {
         state.siteAnalysis.propertyWidthFt,
         state.siteAnalysis.propertyLengthFt
       );
+      const heatmapSvg = renderHeatmapLayerFeet(
+        design,
+        state.siteAnalysis.propertyWidthFt,
+        state.siteAnalysis.propertyLengthFt
+      );
 
       setState(prev => ({
         ...prev,
@@ -127,6 +144,7 @@ const App: React.FC = () => {
         projectInput: state.projectInput,
         design,
         siteAnalysis: state.siteAnalysis,
+        includeCoverageSheet,
       });
       const sheets = compositorOutput.sheets;
 
@@ -134,6 +152,7 @@ const App: React.FC = () => {
         ...prev,
         design,
         irrigationSvg,
+        heatmapSvg,
         planSheets: sheets,
         status: WorkflowStatus.DESIGN_COMPLETE,
         progress: '',
@@ -149,12 +168,28 @@ const App: React.FC = () => {
     }
   };
 
+  const handleCoverageSheetToggle = (include: boolean) => {
+    setIncludeCoverageSheet(include);
+    if (!state.design || !state.siteAnalysis || !state.projectInput || !state.sitePlanSvg) return;
+
+    const { sheets } = composePlanSheets({
+      sitePlanSvg: state.sitePlanSvg,
+      projectInput: state.projectInput,
+      design: state.design,
+      siteAnalysis: state.siteAnalysis,
+      includeCoverageSheet: include,
+    });
+    setState(prev => ({ ...prev, planSheets: sheets }));
+    setActiveSheet(i => Math.min(i, sheets.length - 1));
+  };
+
   const handleReset = () => {
     setState({
       projectInput: null,
       siteAnalysis: null,
       sitePlanSvg: null,
       irrigationSvg: null,
+      heatmapSvg: null,
       design: null,
       planSheets: [],
       status: WorkflowStatus.IDLE,
@@ -230,6 +265,7 @@ const App: React.FC = () => {
         {state.status === WorkflowStatus.ANALYSIS_COMPLETE && state.siteAnalysis && (
           <SiteAnalysisView
             analysis={state.siteAnalysis}
+            markup={state.projectInput?.imageMarkup}
             onContinue={handleGenerateSitePlan}
           />
         )}
@@ -274,7 +310,19 @@ const App: React.FC = () => {
                 <h2 className="text-2xl font-bold text-gray-900">{state.projectInput?.projectName}</h2>
                 <p className="text-gray-500">
                   {state.design.totalZones} zones | {state.design.totalSystemGPM} GPM | {state.design.heads.length} heads
+                  {state.design.supply && ` | ${state.design.supply.availableGPM} GPM available per zone`}
+                  {state.design.gradeSource && state.design.gradeSource !== 'flat' && ` | grade from ${state.design.gradeSource.replace('-', ' ')}`}
+                  {state.design.sleeves && state.design.sleeves.length > 0 && ` | ${state.design.sleeves.length} sleeves under paving (IR-4)`}
+                  {state.design.twoWire && ` | two-wire: ${state.design.twoWire.decoders.length} decoders, ${state.design.twoWire.surgeArrestors.length} surge protectors`}
                 </p>
+                {state.design.pressure?.notes.map((note, i) => (
+                  <p key={i} className="text-sm text-blue-700">{note}</p>
+                ))}
+                {state.design.heads.some(h => h.checkValve) && (
+                  <p className="text-sm text-amber-600">
+                    {state.design.heads.filter(h => h.checkValve).length} head(s) sit more than {DESIGN_RULES.hydraulics.checkValveDropFt} ft below their valve and need check valves
+                  </p>
+                )}
               </div>
               <button
                 onClick={handleReset}
@@ -293,6 +341,7 @@ const App: React.FC = () => {
                     { value: 'combined', label: 'Combined' },
                     { value: 'sitePlan', label: 'Site Plan' },
                     { value: 'irrigation', label: 'Irrigation' },
+                    { value: 'heatmap', label: 'Coverage Heatmap' },
                   ].map((mode) => (
                     <button
                       key={mode.value}
@@ -307,6 +356,14 @@ const App: React.FC = () => {
                     </button>
                   ))}
                 </div>
+                <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={includeCoverageSheet}
+                    onChange={(e) => handleCoverageSheetToggle(e.target.checked)}
+                  />
+                  Coverage heatmap (IR-1 overlay, IR-6 sheet)
+                </label>
               </div>
             </div>
 
@@ -314,14 +371,16 @@ const App: React.FC = () => {
             {previewMode !== 'combined' && (
               <div className="bg-white rounded-xl border border-gray-200 p-4">
                 <h3 className="font-bold text-gray-900 mb-4">
-                  {previewMode === 'sitePlan' ? 'Site Plan Layer' : 'Irrigation Layer'}
+                  {previewMode === 'sitePlan' ? 'Site Plan Layer' : previewMode === 'heatmap' ? 'Coverage Heatmap' : 'Irrigation Layer'}
                 </h3>
                 <div
                   className="w-full aspect-[3/2] border border-gray-100 rounded-lg overflow-hidden bg-white"
                   dangerouslySetInnerHTML={{
                     __html: previewMode === 'sitePlan'
                       ? (state.sitePlanSvg || '')
-                      : (state.irrigationSvg || '')
+                      : previewMode === 'heatmap'
+                        ? (state.heatmapSvg || '')
+                        : (state.irrigationSvg || '')
                   }}
                 />
               </div>
@@ -395,22 +454,69 @@ const App: React.FC = () => {
                         <th className="text-right py-2 px-3 font-semibold text-gray-600">GPM</th>
                         <th className="text-right py-2 px-3 font-semibold text-gray-600">Precip Rate</th>
                         <th className="text-right py-2 px-3 font-semibold text-gray-600">Runtime</th>
+                        <th className="text-right py-2 px-3 font-semibold text-gray-600">Critical Head</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {state.design.zones.map((zone, i) => {
+                        const hydraulics = state.design?.hydraulics?.zones.find(z => z.zoneId === zone.id);
+                        return (
+                          <tr key={zone.id} className={i % 2 === 0 ? 'bg-gray-50' : ''}>
+                            <td className="py-2 px-3">
+                              <span className="inline-flex items-center gap-2">
+                                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: zone.color }}></span>
+                                Zone {zone.number}
+                              </span>
+                            </td>
+                            <td className="py-2 px-3 text-gray-600">{zone.headType}</td>
+                            <td className="py-2 px-3 text-right font-mono">{zone.heads.length}</td>
+                            <td className="py-2 px-3 text-right font-mono">{zone.totalGPM}</td>
+                            <td className="py-2 px-3 text-right font-mono">{zone.precipRateInPerHr} in/hr</td>
+                            <td className="py-2 px-3 text-right font-mono">{zone.runtimeMinutes} min</td>
+                            <td className={`py-2 px-3 text-right font-mono ${hydraulics && !hydraulics.adequate ? 'text-amber-600' : ''}`}>
+                              {hydraulics ? `${hydraulics.criticalHeadPSI} / ${hydraulics.minimumPSI} PSI` : '—'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {/* Coverage Analysis */}
+            {state.design.coverage && state.design.coverage.areas.length > 0 && (
+              <div className="bg-white rounded-xl border border-gray-200 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-bold text-gray-900">Coverage Analysis</h3>
+                  <span className={`text-xs font-semibold px-2 py-1 rounded ${state.design.coverage.passes ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+                    {state.design.coverage.passes ? 'Meets quality standards' : 'Below quality standards'}
+                  </span>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-2 px-3 font-semibold text-gray-600">Area</th>
+                        <th className="text-left py-2 px-3 font-semibold text-gray-600">Zones</th>
+                        <th className="text-right py-2 px-3 font-semibold text-gray-600">DU (low quarter)</th>
+                        <th className="text-right py-2 px-3 font-semibold text-gray-600">SC</th>
+                        <th className="text-right py-2 px-3 font-semibold text-gray-600">Head-to-Head</th>
+                        <th className="text-right py-2 px-3 font-semibold text-gray-600">Dry Spots</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {state.design.zones.map((zone, i) => (
-                        <tr key={zone.id} className={i % 2 === 0 ? 'bg-gray-50' : ''}>
-                          <td className="py-2 px-3">
-                            <span className="inline-flex items-center gap-2">
-                              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: zone.color }}></span>
-                              Zone {zone.number}
-                            </span>
+                      {state.design.coverage.areas.map((area, i) => (
+                        <tr key={area.areaId} className={i % 2 === 0 ? 'bg-gray-50' : ''}>
+                          <td className="py-2 px-3 text-gray-800">{area.areaId}</td>
+                          <td className="py-2 px-3 text-gray-600">{area.zoneIds.join(', ')}</td>
+                          <td className={`py-2 px-3 text-right font-mono ${area.passes.duLowQuarter ? '' : 'text-amber-600'}`}>{area.duLowQuarter.toFixed(2)}</td>
+                          <td className={`py-2 px-3 text-right font-mono ${area.passes.schedulingCoefficient ? '' : 'text-amber-600'}`}>{area.schedulingCoefficient === null ? 'N/A' : area.schedulingCoefficient.toFixed(2)}</td>
+                          <td className={`py-2 px-3 text-right font-mono ${area.passes.headToHead ? '' : 'text-amber-600'}`}>{area.headToHeadPct}%</td>
+                          <td className="py-2 px-3 text-right font-mono">
+                            {area.drySpots.length === 0 ? '—' : `${area.drySpots.length} (${Math.round(area.drySpots.reduce((sum, s) => sum + s.areaFt2, 0))} ft²)`}
                           </td>
-                          <td className="py-2 px-3 text-gray-600">{zone.headType}</td>
-                          <td className="py-2 px-3 text-right font-mono">{zone.heads.length}</td>
-                          <td className="py-2 px-3 text-right font-mono">{zone.totalGPM}</td>
-                          <td className="py-2 px-3 text-right font-mono">{zone.precipRateInPerHr} in/hr</td>
-                          <td className="py-2 px-3 text-right font-mono">{zone.runtimeMinutes} min</td>
                         </tr>
                       ))}
                     </tbody>
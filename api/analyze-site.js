@@ -338,13 +338,8 @@ CRITICAL: All boundaryPoints must trace the ACTUAL visible edges. Do not use sim
       }
     }
 
-    // Use user-marked locations if provided
-    if (controllerLoc) {
-      parsed.controllerLocation = { x: controllerLoc.x, y: controllerLoc.y };
-    }
-    if (waterSourceLoc) {
-      parsed.waterSourceLocation = { x: waterSourceLoc.x, y: waterSourceLoc.y };
-    }
+    // User-marked locations are applied by the design engine and site plan; keep the AI's
+    // own detections here so the client can flag disagreements
 
     // Ensure arrays exist with defaults
     if (!parsed.turfZones) parsed.turfZones = [];
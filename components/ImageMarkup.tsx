@@ -1,7 +1,16 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { ImagePoint, ImageMarkup, ScaleReference } from '../types';
+import { ImagePoint, ImageMarkup, ScaleReference, IrrigationAreaType } from '../types';
+import { parseSpotElevationCsv } from '../services/siteMarkup';
 
-type MarkupMode = 'scale1' | 'scale2' | 'scaleConfirm' | 'controller' | 'waterSource' | 'irrigation' | 'none';
+type MarkupMode = 'scale1' | 'scale2' | 'scaleConfirm' | 'controller' | 'waterSource' | 'irrigation' | 'elevation' | 'none';
+
+const AREA_TYPE_OPTIONS: Array<{ value: IrrigationAreaType | ''; label: string }> = [
+  { value: '', label: 'Auto (AI)' },
+  { value: 'turf', label: 'Turf' },
+  { value: 'bed', label: 'Bed' },
+  { value: 'narrow-strip', label: 'Strip' },
+  { value: 'tree-ring', label: 'Tree Ring' },
+];
 
 interface Props {
   imageUrl: string;
@@ -15,7 +24,10 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
   const [scalePoint2, setScalePoint2] = useState<ImagePoint | null>(markup.scaleReference?.point2 || null);
   const [scaleDistance, setScaleDistance] = useState<number>(markup.scaleReference?.distanceFt || 0);
   const [currentPolygon, setCurrentPolygon] = useState<ImagePoint[]>([]);
+  const [spotElevationFt, setSpotElevationFt] = useState<number | null>(null);
+  const [elevationError, setElevationError] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const elevationFileRef = useRef<HTMLInputElement>(null);
 
   const getClickPosition = useCallback((e: React.MouseEvent<HTMLDivElement>): ImagePoint => {
     const rect = containerRef.current?.getBoundingClientRect();
@@ -53,6 +65,13 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
         setMode('none');
         break;
 
+      case 'elevation':
+        if (spotElevationFt !== null) {
+          const spots = markup.spotElevations || [];
+          onMarkupChange({ ...markup, spotElevations: [...spots, { point, elevationFt: spotElevationFt }] });
+        }
+        break;
+
       case 'irrigation':
         // Check if clicking near the first point to close the polygon
         if (currentPolygon.length >= 3) {
@@ -73,7 +92,7 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
         setCurrentPolygon([...currentPolygon, point]);
         break;
     }
-  }, [mode, scalePoint1, scaleDistance, markup, currentPolygon, getClickPosition, onMarkupChange]);
+  }, [mode, scalePoint1, scaleDistance, spotElevationFt, markup, currentPolygon, getClickPosition, onMarkupChange]);
 
   const finishPolygon = () => {
     if (currentPolygon.length >= 3) {
@@ -85,10 +104,32 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
   };
 
   const clearIrrigationAreas = () => {
-    onMarkupChange({ ...markup, irrigationAreas: [] });
+    onMarkupChange({ ...markup, irrigationAreas: [], irrigationAreaTypes: [] });
     setCurrentPolygon([]);
   };
 
+  const importSpotElevations = async (file: File) => {
+    try {
+      const imported = parseSpotElevationCsv(await file.text(), markup.imageWidthPx || 0, markup.imageHeightPx || 0);
+      onMarkupChange({ ...markup, spotElevations: [...(markup.spotElevations || []), ...imported] });
+      setElevationError(null);
+    } catch (err) {
+      setElevationError(err instanceof Error ? err.message : 'Could not read the spot elevation file.');
+    }
+  };
+
+  const clearSpotElevations = () => {
+    onMarkupChange({ ...markup, spotElevations: [] });
+    setElevationError(null);
+  };
+
+  const setAreaType = (index: number, type: IrrigationAreaType | null) => {
+    const types = (markup.irrigationAreas || []).map((_, i) =>
+      i === index ? type : markup.irrigationAreaTypes?.[i] ?? null
+    );
+    onMarkupChange({ ...markup, irrigationAreaTypes: types });
+  };
+
   const startScaleMode = () => {
     setScalePoint1(null);
     setScalePoint2(null);
@@ -166,6 +207,16 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
               stroke="#16A34A"
               strokeWidth="0.5"
             />
+            <text
+              x={polygon.reduce((sum, p) => sum + p.x, 0) / polygon.length * 100}
+              y={polygon.reduce((sum, p) => sum + p.y, 0) / polygon.length * 100}
+              fontSize="3"
+              fill="#166534"
+              textAnchor="middle"
+              dominantBaseline="middle"
+            >
+              {i + 1}
+            </text>
             {/* Vertex markers for completed polygons */}
             {polygon.map((p, j) => (
               <circle
@@ -225,6 +276,9 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
       case 'scaleConfirm': return 'Enter the distance between the two points and click Confirm';
       case 'controller': return 'Click where the controller should be located';
       case 'waterSource': return 'Click where the water source/POC is located';
+      case 'elevation': return spotElevationFt === null
+        ? 'Enter the elevation in feet, then click each point at that grade'
+        : `Click to mark points at ${spotElevationFt} ft`;
       case 'irrigation': return currentPolygon.length >= 3
         ? 'Click near the first point (highlighted) to close the shape, or continue adding points'
         : 'Click to place points. Need at least 3 points to create an area';
@@ -264,13 +318,38 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
         </div>
       )}
 
+      {/* Spot elevation input (shown when marking elevations) */}
+      {mode === 'elevation' && (
+        <div className="flex items-center gap-2 p-3 bg-amber-50 rounded-lg flex-wrap">
+          <label className="text-sm font-medium text-amber-800">Elevation:</label>
+          <input
+            type="number"
+            value={spotElevationFt ?? ''}
+            onChange={e => setSpotElevationFt(e.target.value === '' ? null : parseFloat(e.target.value))}
+            placeholder="e.g., 102.5"
+            className="w-24 px-3 py-1.5 border border-amber-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500"
+          />
+          <span className="text-sm text-amber-700">feet</span>
+        </div>
+      )}
+
       {/* Image with markers */}
       <div
         ref={containerRef}
         className={`relative cursor-crosshair border-2 rounded-xl overflow-hidden ${mode !== 'none' ? 'border-blue-400' : 'border-gray-300'}`}
         onClick={handleImageClick}
       >
-        <img src={imageUrl} alt="Site" className="w-full h-auto" />
+        <img
+          src={imageUrl}
+          alt="Site"
+          className="w-full h-auto"
+          onLoad={e => {
+            const { naturalWidth, naturalHeight } = e.currentTarget;
+            if (naturalWidth !== markup.imageWidthPx || naturalHeight !== markup.imageHeightPx) {
+              onMarkupChange({ ...markup, imageWidthPx: naturalWidth, imageHeightPx: naturalHeight });
+            }
+          }}
+        />
 
         {/* Render scale line */}
         {renderScaleLine()}
@@ -302,6 +381,18 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
 
         {/* Render irrigation polygons */}
         {renderPolygons()}
+
+        {/* Render spot elevations */}
+        {(markup.spotElevations || []).map((spot, i) => (
+          <div
+            key={i}
+            className="absolute transform -translate-x-1/2 -translate-y-1/2 pointer-events-none flex items-center gap-1"
+            style={{ left: `${spot.point.x * 100}%`, top: `${spot.point.y * 100}%` }}
+          >
+            <span className="w-2 h-2 rounded-full bg-amber-500 border border-white shadow"></span>
+            <span className="text-[10px] font-semibold text-amber-800 bg-white/80 px-1 rounded">{spot.elevationFt}</span>
+          </div>
+        ))}
       </div>
 
       {/* Toolbar */}
@@ -362,6 +453,49 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
           {(markup.irrigationAreas?.length || 0) > 0 ? `✓ ${markup.irrigationAreas?.length} Area(s)` : 'Draw Irrigation Area'}
         </button>
 
+        <button
+          type="button"
+          onClick={() => setMode('elevation')}
+          className={`px-3 py-2 text-sm rounded-lg font-medium transition-colors ${
+            mode === 'elevation'
+              ? 'bg-amber-600 text-white'
+              : (markup.spotElevations?.length || 0) > 0
+                ? 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {(markup.spotElevations?.length || 0) > 0 ? `✓ ${markup.spotElevations?.length} Elevation(s)` : 'Mark Elevations'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => elevationFileRef.current?.click()}
+          className="px-3 py-2 text-sm rounded-lg font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          Import Elevations
+        </button>
+        <input
+          ref={elevationFileRef}
+          type="file"
+          accept=".csv,.txt"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importSpotElevations(file);
+            e.target.value = '';
+          }}
+        />
+
+        {(markup.spotElevations?.length || 0) > 0 && (
+          <button
+            type="button"
+            onClick={clearSpotElevations}
+            className="px-3 py-2 text-sm rounded-lg font-medium bg-red-100 text-red-700 hover:bg-red-200"
+          >
+            Clear Elevations
+          </button>
+        )}
+
         {mode === 'irrigation' && currentPolygon.length >= 3 && (
           <button
             type="button"
@@ -393,6 +527,43 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
         )}
       </div>
 
+      {elevationError && (
+        <div className="p-3 bg-red-50 rounded-lg text-sm text-red-700">{elevationError}</div>
+      )}
+
+      {/* Traced area tagging */}
+      {(markup.irrigationAreas?.length || 0) > 0 && (
+        <div className="p-3 bg-green-50 rounded-lg space-y-2">
+          <label className="flex items-center gap-2 text-sm font-medium text-green-800">
+            <input
+              type="checkbox"
+              checked={!!markup.useIrrigationAreasAsZones}
+              onChange={e => onMarkupChange({ ...markup, useIrrigationAreasAsZones: e.target.checked })}
+              className="rounded border-green-400 text-green-600 focus:ring-green-500"
+            />
+            Irrigate only the traced areas
+          </label>
+          {markup.useIrrigationAreasAsZones && (
+            <div className="flex flex-wrap gap-3">
+              {markup.irrigationAreas!.map((_, i) => (
+                <label key={i} className="flex items-center gap-1 text-xs text-green-800">
+                  Area {i + 1}
+                  <select
+                    value={markup.irrigationAreaTypes?.[i] ?? ''}
+                    onChange={e => setAreaType(i, (e.target.value || null) as IrrigationAreaType | null)}
+                    className="px-2 py-1 border border-green-300 rounded text-xs"
+                  >
+                    {AREA_TYPE_OPTIONS.map(opt => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Legend */}
       <div className="flex flex-wrap gap-4 text-xs text-gray-500">
         <span className="flex items-center gap-1">
@@ -407,6 +578,9 @@ const ImageMarkupComponent: React.FC<Props> = ({ imageUrl, markup, onMarkupChang
         <span className="flex items-center gap-1">
           <span className="w-3 h-3 rounded bg-green-500/30 border border-green-500"></span> Irrigation Area
         </span>
+        <span className="flex items-center gap-1">
+          <span className="w-2 h-2 rounded-full bg-amber-500"></span> Spot Elevation (ft; import as x,y,elevation in image pixels)
+        </span>
       </div>
     </div>
   );
@@ -1,5 +1,5 @@
 import React, { useState, useRef } from 'react';
-import { ProjectInput, ImageMarkup } from '../types';
+import { ProjectInput, ImageMarkup, WiringMode } from '../types';
 import ImageMarkupComponent from './ImageMarkup';
 
 interface Props {
@@ -49,6 +49,7 @@ const ProjectForm: React.FC<Props> = ({ onSubmit, disabled }) => {
   const [soilType, setSoilType] = useState<'clay' | 'loam' | 'sand'>('clay');
   const [turfType, setTurfType] = useState<'bermudagrass' | 'fescue' | 'zoysia' | 'centipede' | 'st-augustine'>('bermudagrass');
   const [applicationType, setApplicationType] = useState<'commercial' | 'multifamily' | 'athletic-field' | 'hoa-common-area'>('commercial');
+  const [wiringMode, setWiringMode] = useState<WiringMode>('conventional');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string>('');
   const [compressedMimeType, setCompressedMimeType] = useState<string>('image/jpeg');
@@ -113,6 +114,7 @@ const ProjectForm: React.FC<Props> = ({ onSubmit, disabled }) => {
       soilType,
       turfType,
       applicationType,
+      wiringMode,
       droneImageBase64: base64,
       droneImageMimeType: compressedMimeType,
       droneImagePreviewUrl: imagePreview,
@@ -318,7 +320,7 @@ const ProjectForm: React.FC<Props> = ({ onSubmit, disabled }) => {
               </select>
             </div>
 
-            <div className="md:col-span-2">
+            <div>
               <label className="block text-sm font-semibold text-gray-700 mb-1">Application Type</label>
               <select
                 value={applicationType}
@@ -331,6 +333,18 @@ const ProjectForm: React.FC<Props> = ({ onSubmit, disabled }) => {
                 <option value="hoa-common-area">HOA Common Area</option>
               </select>
             </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">Valve Wiring</label>
+              <select
+                value={wiringMode}
+                onChange={e => setWiringMode(e.target.value as WiringMode)}
+                className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 outline-none bg-white"
+              >
+                <option value="conventional">Conventional Multi-Wire</option>
+                <option value="two-wire">Two-Wire Decoder</option>
+              </select>
+            </div>
           </div>
 
           <button
@@ -1,12 +1,16 @@
 import React from 'react';
-import { SiteAnalysis } from '../types';
+import { SiteAnalysis, ImageMarkup } from '../types';
+import { findLocationConflicts } from '../services/siteMarkup';
 
 interface Props {
   analysis: SiteAnalysis;
+  markup?: ImageMarkup;
   onContinue: () => void;
 }
 
-const SiteAnalysisView: React.FC<Props> = ({ analysis, onContinue }) => {
+const SiteAnalysisView: React.FC<Props> = ({ analysis, markup, onContinue }) => {
+  const locationConflicts = findLocationConflicts(analysis, markup);
+
   return (
     <div className="max-w-5xl mx-auto space-y-6">
       <div className="text-center">
@@ -20,6 +24,34 @@ const SiteAnalysisView: React.FC<Props> = ({ analysis, onContinue }) => {
         <StatCard label="Estimated Acreage" value={`${((analysis.propertyWidthFt * analysis.propertyLengthFt) / 43560).toFixed(2)} acres`} />
       </div>
 
+      {analysis.calibration && (
+        <div className="bg-blue-50 rounded-xl border border-blue-200 p-4 text-sm text-blue-900">
+          <p className="font-bold mb-1">Scale Calibration</p>
+          <p>
+            AI estimate {Math.round(analysis.calibration.aiPropertyWidthFt)}' x {Math.round(analysis.calibration.aiPropertyLengthFt)}'
+            {' → '}calibrated {Math.round(analysis.propertyWidthFt)}' x {Math.round(analysis.propertyLengthFt)}'
+            {' '}({analysis.calibration.pixelsPerFoot} px/ft)
+          </p>
+          <p className="text-blue-700">
+            AI error: width {formatError(analysis.calibration.widthErrorPct)}, length {formatError(analysis.calibration.lengthErrorPct)}, irrigable area {formatError(analysis.calibration.areaErrorPct)}
+          </p>
+          {analysis.calibration.aspectRatioAssumed && (
+            <p className="text-amber-700 mt-1">Image size unknown - a square image was assumed.</p>
+          )}
+        </div>
+      )}
+
+      {locationConflicts.length > 0 && (
+        <div className="bg-amber-50 rounded-xl border border-amber-300 p-4 text-sm text-amber-900">
+          <p className="font-bold mb-1">Location Conflict</p>
+          {locationConflicts.map(c => (
+            <p key={c.label}>
+              {c.label}: the AI detected it {c.distanceFt}' from your marked point. The marked location will be used.
+            </p>
+          ))}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Turf Zones */}
         <div className="bg-white rounded-xl border border-gray-200 p-5">
@@ -91,7 +123,8 @@ const SiteAnalysisView: React.FC<Props> = ({ analysis, onContinue }) => {
             <p>Narrow Strips: {analysis.narrowStrips.length}</p>
             <p>Tree Canopies: {analysis.treeCanopyAreas.length}</p>
             <p>Slopes: {analysis.slopeIndicators.length}</p>
-            <p>Water Source: {analysis.waterSourceLocation ? 'Detected' : 'Not detected'}</p>
+            <p>Water Source: {markup?.waterSourceLocation ? 'Marked' : analysis.waterSourceLocation ? 'Detected' : 'Not detected'}</p>
+            <p>Controller: {markup?.controllerLocation ? 'Marked' : analysis.controllerLocation ? 'Detected' : 'Not detected'}</p>
           </div>
         </div>
       </div>
@@ -108,6 +141,10 @@ const SiteAnalysisView: React.FC<Props> = ({ analysis, onContinue }) => {
   );
 };
 
+function formatError(pct: number): string {
+  return `${pct > 0 ? '+' : ''}${pct}%`;
+}
+
 function StatCard({ label, value }: { label: string; value: string }) {
   return (
     <div className="bg-white rounded-xl border border-gray-200 p-4 text-center">
@@ -1,3 +1,5 @@
+import { recommendPipeSize } from './hydraulics';
+
 export const DESIGN_RULES = {
   headToHead: {
     description: 'Every head spaced so throw radius reaches adjacent head',
@@ -11,12 +13,17 @@ export const DESIGN_RULES = {
   zoneSeparation: {
     separateTurfFromBeds: true,
     separateExposures: ['full-sun turf', 'shaded turf', 'slopes > 4:1', 'ornamental beds'],
+    steepSlopeRun: 4, // run:rise below this (steeper than 4:1, 25%) is a steep slope
     requireIndependentZoneControl: true,
   },
   hydraulics: {
     maxGPMPerZone1inLateral: 15,
     maxGPMPerZone1_25inLateral: 22,
     maxPipeVelocityFPS: 5,
+    maxMeterFlowFraction: 0.75,
+    minOperatingPSI: 30,
+    boosterMarginPSI: 5, // booster sized to lift the critical head this far above its minimum
+    checkValveDropFt: 10, // heads this far below their valve drain the lateral after shutoff
   },
   pipeSizing: {
     mainline: {
@@ -54,9 +61,38 @@ export const DESIGN_RULES = {
     adjacentToNearestBuilding: true,
     nearWaterSource: true,
   },
+  sleeves: {
+    sizeFactor: 2,         // sleeve diameter over the pipe it carries
+    extendPastEdgeFt: 1,   // beyond each edge of paving
+    wireSleeveSizeIn: 2,
+    standardSizesIn: [2, 3, 4, 6],
+  },
+  wiring: {
+    controllerOutputVAC: 24,
+    minSolenoidVAC: 20,     // lowest voltage that still pulls a solenoid in
+    minZoneAWG: 18,
+    minCommonAWG: 14,
+    slackFt: 2,             // expansion loop at each end of a run
+    sparesPerManifold: 2,
+  },
+  twoWire: {
+    arrestorSpacingFt: 500,  // LSP-1 at least this often along the path
+    decodersPerArrestor: 8,  // and at least once per this many decoders
+  },
+  flowSensor: {
+    straightRunDiameters: 10, // clear pipe upstream of the sensor
+    highFlowPercent: 130,     // of learned flow
+    lowFlowPercent: 70,
+  },
+  controller: {
+    spareStationFraction: 0.1, // of the stations in use, held open for future zones
+    minSpareStations: 2,
+    stackSpacingFt: 3,         // controllers added past capacity mount beside the first
+  },
   valvePlacement: {
     maxValvesPerJumboBox: 4,
     maxValvesPerRectBox: 6,
+    maxManifoldReachFt: 75,  // farthest a zone's center may sit from its manifold
     centralToServedZones: true,
   },
   backflow: {
@@ -103,8 +139,9 @@ export function getScaleForAcreage(acres: number): { scale: number; label: strin
   return SCALE_RULES.over5Acres;
 }
 
-export function getMainlineSizeIn(totalGPM: number): number {
-  return totalGPM >= 40 ? 2 : 1.5;
+// Sized to carry the supply's available flow at the velocity limit
+export function getMainlineSizeIn(availableGPM: number): number {
+  return recommendPipeSize(availableGPM, 'mainline')?.sizeIn ?? 3;
 }
 
 export function getLateralSizeIn(headType: 'rotor' | 'spray' | 'rotary-nozzle' | 'drip' | 'strip'): number {
@@ -112,6 +149,12 @@ export function getLateralSizeIn(headType: 'rotor' | 'spray' | 'rotary-nozzle' |
   return 0.75;
 }
 
+// Smallest standard sleeve at least twice the pipe's diameter
+export function getSleeveSizeIn(pipeSizeIn: number): number {
+  const { sizeFactor, standardSizesIn } = DESIGN_RULES.sleeves;
+  return standardSizesIn.find(s => s >= pipeSizeIn * sizeFactor) ?? standardSizesIn[standardSizesIn.length - 1];
+}
+
 export function needsMasterValve(totalGPM: number): boolean {
   return totalGPM > 30;
 }
@@ -195,6 +195,8 @@ export interface DevicePressureLoss {
   device: string;
   sizeIn: number;
   pressureLossPSI: number;
+  /** Flow the loss was taken at, where it is known; loss scales with its square */
+  atGPM?: number;
   notes: string;
 }
 
@@ -214,10 +216,10 @@ export const DEVICE_PRESSURE_LOSSES: DevicePressureLoss[] = [
   { device: 'pvb', sizeIn: 1.5, pressureLossPSI: 3, notes: 'Pressure Vacuum Breaker' },
 
   // Water meters
-  { device: 'meter', sizeIn: 0.75, pressureLossPSI: 8, notes: 'Standard water meter at design flow' },
-  { device: 'meter', sizeIn: 1.0, pressureLossPSI: 6, notes: 'Standard water meter at design flow' },
-  { device: 'meter', sizeIn: 1.5, pressureLossPSI: 4, notes: 'Standard water meter at design flow' },
-  { device: 'meter', sizeIn: 2.0, pressureLossPSI: 3, notes: 'Standard water meter at design flow' },
+  { device: 'meter', sizeIn: 0.75, pressureLossPSI: 8, atGPM: 22.5, notes: 'Standard water meter at 75% of maximum continuous flow' },
+  { device: 'meter', sizeIn: 1.0, pressureLossPSI: 6, atGPM: 37.5, notes: 'Standard water meter at 75% of maximum continuous flow' },
+  { device: 'meter', sizeIn: 1.5, pressureLossPSI: 4, atGPM: 75, notes: 'Standard water meter at 75% of maximum continuous flow' },
+  { device: 'meter', sizeIn: 2.0, pressureLossPSI: 3, atGPM: 120, notes: 'Standard water meter at 75% of maximum continuous flow' },
 
   // Filters
   { device: 'filter-150mesh', sizeIn: 1.0, pressureLossPSI: 5, notes: 'Clean 150-mesh filter for drip' },
@@ -228,6 +230,23 @@ export const DEVICE_PRESSURE_LOSSES: DevicePressureLoss[] = [
   { device: 'pressure-regulator', sizeIn: 1.5, pressureLossPSI: 2, notes: 'Inline pressure regulator' },
 ];
 
+// ============================================================================
+// WATER METER CAPACITY
+// ============================================================================
+
+export interface MeterCapacity {
+  sizeIn: number;
+  maxFlowGPM: number;
+  notes: string;
+}
+
+export const METER_CAPACITIES: MeterCapacity[] = [
+  { sizeIn: 0.75, maxFlowGPM: 30, notes: 'AWWA C700 displacement meter, maximum continuous flow' },
+  { sizeIn: 1.0, maxFlowGPM: 50, notes: 'AWWA C700 displacement meter, maximum continuous flow' },
+  { sizeIn: 1.5, maxFlowGPM: 100, notes: 'AWWA C700 displacement meter, maximum continuous flow' },
+  { sizeIn: 2.0, maxFlowGPM: 160, notes: 'AWWA C700 displacement meter, maximum continuous flow' },
+];
+
 // ============================================================================
 // VELOCITY CONSTRAINTS
 // ============================================================================
@@ -416,15 +435,29 @@ export function getFittingEquivalentLength(fitting: string, sizeIn: number): num
  * Get device pressure loss
  */
 export function getDevicePressureLoss(device: string, sizeIn: number): number {
+  return getDeviceLossEntry(device, sizeIn)?.pressureLossPSI ?? 0;
+}
+
+/**
+ * Get the device loss table entry for a size, or the closest listed size
+ */
+export function getDeviceLossEntry(device: string, sizeIn: number): DevicePressureLoss | undefined {
   const entry = DEVICE_PRESSURE_LOSSES.find(d => d.device === device && d.sizeIn === sizeIn);
   if (!entry) {
     const sameType = DEVICE_PRESSURE_LOSSES.filter(d => d.device === device);
-    const closest = sameType.reduce((prev, curr) =>
+    if (sameType.length === 0) return undefined;
+    return sameType.reduce((prev, curr) =>
       Math.abs(curr.sizeIn - sizeIn) < Math.abs(prev.sizeIn - sizeIn) ? curr : prev
     );
-    return closest?.pressureLossPSI ?? 0;
   }
-  return entry.pressureLossPSI;
+  return entry;
+}
+
+/**
+ * Get water meter capacity
+ */
+export function getMeterCapacity(sizeIn: number): MeterCapacity | undefined {
+  return METER_CAPACITIES.find(m => m.sizeIn === sizeIn);
 }
 
 /**
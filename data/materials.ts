@@ -1,3 +1,5 @@
+import { WiringMode } from '../types';
+
 export interface HeadSpec {
   id: string;
   category: 'rotor' | 'spray' | 'rotary-nozzle' | 'strip' | 'drip' | 'quick-coupler';
@@ -13,6 +15,9 @@ export interface HeadSpec {
   gpmAtDefaultRadius: number;
   psi: number;
   nozzle: string;
+  nozzleIds: string[];     // Interchangeable nozzles in ALL_NOZZLES (data/nozzlePerformance)
+  regulatedPSI?: number;   // Outlet pressure of a built-in regulator (PRS/PC bodies)
+  prsVariantId?: string;   // Same nozzle on a pressure-regulating body
   popUpHeight?: number;
   features: string[];
   planLabel: string;
@@ -20,7 +25,7 @@ export interface HeadSpec {
 
 export interface ValveSpec {
   id: string;
-  category: 'zone' | 'master' | 'backflow' | 'quick-coupler';
+  category: 'zone' | 'master' | 'backflow' | 'quick-coupler' | 'regulator';
   name: string;
   manufacturer: string;
   model: string;
@@ -37,6 +42,23 @@ export interface ControllerSpec {
   application: string;
   stations: string;
   features: string[];
+  baseStations: number;
+  expansionModules: Array<{ model: string; stations: number }>;
+  maxModules: number;
+  maxStations: number;
+}
+
+export interface PumpSpec {
+  id: string;
+  name: string;
+  manufacturer: string;
+  model: string;
+  horsepower: number;
+  voltage: number;
+  phase: 1 | 3;
+  fullLoadAmps: number;
+  breakerAmps: number;
+  curve: Array<{ gpm: number; headFt: number }>; // published pump curve, ascending flow
 }
 
 export interface SensorSpec {
@@ -48,6 +70,16 @@ export interface SensorSpec {
   features: string[];
 }
 
+export interface FlowSensorSpec {
+  id: string;
+  name: string;
+  manufacturer: string;
+  model: string;
+  sizeIn: number;
+  minGPM: number; // accurate operating range
+  maxGPM: number;
+}
+
 export interface PipeSpec {
   id: string;
   name: string;
@@ -75,6 +107,7 @@ export const SPRINKLER_HEADS: HeadSpec[] = [
     gpmAtDefaultRadius: 4.2,
     psi: 45,
     nozzle: '#6.0',
+    nozzleIds: ['i40-nozzle-4', 'i40-nozzle-6'],
     popUpHeight: 4,
     features: ['Stainless riser', 'Adjustable arc'],
     planLabel: 'RTR',
@@ -94,6 +127,8 @@ export const SPRINKLER_HEADS: HeadSpec[] = [
     gpmAtDefaultRadius: 3.0,
     psi: 45,
     nozzle: '#3.0',
+    nozzleIds: ['5004-nozzle-2', '5004-nozzle-3'],
+    regulatedPSI: 45,
     popUpHeight: 4,
     features: ['PRS', 'SAM check valve', 'Adjustable arc'],
     planLabel: 'RTR',
@@ -113,6 +148,7 @@ export const SPRINKLER_HEADS: HeadSpec[] = [
     gpmAtDefaultRadius: 2.2,
     psi: 45,
     nozzle: '#2.0',
+    nozzleIds: ['pgp-nozzle-2', 'pgp-nozzle-4'],
     popUpHeight: 4,
     features: ['Rubber cover', 'Adjustable arc'],
     planLabel: 'RTR',
@@ -132,6 +168,8 @@ export const SPRINKLER_HEADS: HeadSpec[] = [
     gpmAtDefaultRadius: 1.5,
     psi: 30,
     nozzle: '15-SST',
+    nozzleIds: ['8-sst', '12-sst', '15-sst'],
+    regulatedPSI: 30,
     popUpHeight: 4,
     features: ['SAM', 'PRS at 30 PSI', '4-inch pop-up'],
     planLabel: 'SP',
@@ -151,9 +189,31 @@ export const SPRINKLER_HEADS: HeadSpec[] = [
     gpmAtDefaultRadius: 0.9,
     psi: 40,
     nozzle: 'MP3000',
+    nozzleIds: ['mp3000'],
+    prsVariantId: 'mp3000-prs40',
     features: ['Adjustable arc', 'Matched precip rate'],
     planLabel: 'RN',
   },
+  {
+    id: 'mp3000-prs40',
+    category: 'rotary-nozzle',
+    name: 'Spray - Rotary Nozzle, Regulated',
+    manufacturer: 'Hunter',
+    model: 'MP3000 / PROS-04-PRS40',
+    application: 'Rotary nozzle zones above 55 PSI',
+    minRadiusFt: 8,
+    maxRadiusFt: 21,
+    defaultRadiusFt: 15,
+    arcAdjustable: true,
+    defaultArc: 360,
+    gpmAtDefaultRadius: 0.9,
+    psi: 40,
+    nozzle: 'MP3000',
+    nozzleIds: ['mp3000'],
+    regulatedPSI: 40,
+    features: ['PRS at 40 PSI', 'Adjustable arc', 'Matched precip rate'],
+    planLabel: 'RN',
+  },
   {
     id: 'he-van-15-sst',
     category: 'strip',
@@ -169,9 +229,31 @@ export const SPRINKLER_HEADS: HeadSpec[] = [
     gpmAtDefaultRadius: 1.0,
     psi: 30,
     nozzle: 'HE-VAN',
+    nozzleIds: ['he-van-15'],
+    prsVariantId: 'he-van-15-prs',
     features: ['Side strip pattern', '15 ft throw'],
     planLabel: 'SP',
   },
+  {
+    id: 'he-van-15-prs',
+    category: 'strip',
+    name: 'Spray - Strip, Regulated',
+    manufacturer: 'Rain Bird',
+    model: 'HE-VAN-15 / 1804-SAM-PRS',
+    application: 'Narrow strips above 30 PSI',
+    minRadiusFt: 4,
+    maxRadiusFt: 15,
+    defaultRadiusFt: 8,
+    arcAdjustable: false,
+    defaultArc: 180,
+    gpmAtDefaultRadius: 1.0,
+    psi: 30,
+    nozzle: 'HE-VAN',
+    nozzleIds: ['he-van-15'],
+    regulatedPSI: 30,
+    features: ['SAM', 'PRS at 30 PSI', 'Side strip pattern'],
+    planLabel: 'SP',
+  },
   {
     id: 'tlcv-09-12-500',
     category: 'drip',
@@ -187,6 +269,7 @@ export const SPRINKLER_HEADS: HeadSpec[] = [
     gpmAtDefaultRadius: 0,
     psi: 30,
     nozzle: '0.9 GPH @ 12" OC',
+    nozzleIds: [],
     features: ['0.9 GPH', '12-inch spacing', 'CV'],
     planLabel: 'DRIP',
   },
@@ -205,6 +288,7 @@ export const SPRINKLER_HEADS: HeadSpec[] = [
     gpmAtDefaultRadius: 0,
     psi: 0,
     nozzle: '',
+    nozzleIds: [],
     features: ['1-inch', 'Brass', 'Locking rubber cover'],
     planLabel: 'QC',
   },
@@ -251,8 +335,88 @@ export const VALVES: ValveSpec[] = [
     sizeIn: 1.5,
     features: ['Size per mainline', 'Tested annually'],
   },
+  {
+    id: 'prs-dial',
+    category: 'regulator',
+    name: 'Valve Pressure Regulator',
+    manufacturer: 'Rain Bird',
+    model: 'PRS-Dial',
+    application: 'Zone valve outlet regulation',
+    sizeIn: 1,
+    features: ['Fits PEB bonnet', 'Dial set 15-100 PSI'],
+  },
 ];
 
+export const BOOSTER_PUMPS: PumpSpec[] = [
+  {
+    id: 'gt07',
+    name: 'Booster Pump - 3/4 HP',
+    manufacturer: 'Goulds',
+    model: 'GT07',
+    horsepower: 0.75,
+    voltage: 230,
+    phase: 1,
+    fullLoadAmps: 6.9,
+    breakerAmps: 15,
+    curve: [{ gpm: 0, headFt: 115 }, { gpm: 20, headFt: 100 }, { gpm: 40, headFt: 80 }, { gpm: 60, headFt: 50 }],
+  },
+  {
+    id: 'gt10',
+    name: 'Booster Pump - 1 HP',
+    manufacturer: 'Goulds',
+    model: 'GT10',
+    horsepower: 1,
+    voltage: 230,
+    phase: 1,
+    fullLoadAmps: 8,
+    breakerAmps: 15,
+    curve: [{ gpm: 0, headFt: 125 }, { gpm: 20, headFt: 115 }, { gpm: 40, headFt: 98 }, { gpm: 60, headFt: 75 }, { gpm: 80, headFt: 40 }],
+  },
+  {
+    id: 'gt15',
+    name: 'Booster Pump - 1-1/2 HP',
+    manufacturer: 'Goulds',
+    model: 'GT15',
+    horsepower: 1.5,
+    voltage: 230,
+    phase: 1,
+    fullLoadAmps: 10,
+    breakerAmps: 20,
+    curve: [{ gpm: 0, headFt: 140 }, { gpm: 30, headFt: 128 }, { gpm: 60, headFt: 105 }, { gpm: 90, headFt: 65 }],
+  },
+  {
+    id: 'gt20',
+    name: 'Booster Pump - 2 HP',
+    manufacturer: 'Goulds',
+    model: 'GT20',
+    horsepower: 2,
+    voltage: 230,
+    phase: 1,
+    fullLoadAmps: 12,
+    breakerAmps: 20,
+    curve: [{ gpm: 0, headFt: 155 }, { gpm: 40, headFt: 140 }, { gpm: 80, headFt: 110 }, { gpm: 110, headFt: 70 }],
+  },
+  {
+    id: 'gt30',
+    name: 'Booster Pump - 3 HP',
+    manufacturer: 'Goulds',
+    model: 'GT30',
+    horsepower: 3,
+    voltage: 230,
+    phase: 1,
+    fullLoadAmps: 17,
+    breakerAmps: 30,
+    curve: [{ gpm: 0, headFt: 170 }, { gpm: 50, headFt: 155 }, { gpm: 100, headFt: 120 }, { gpm: 140, headFt: 70 }],
+  },
+];
+
+export const PUMP_START_RELAY = {
+  name: 'Pump Start Relay',
+  manufacturer: 'Rain Bird',
+  model: 'PSR-220IC',
+  description: '220V coil relay, driven from the controller P/MV terminal',
+};
+
 export const CONTROLLERS: ControllerSpec[] = [
   {
     id: 'esp-lxme2',
@@ -260,8 +424,28 @@ export const CONTROLLERS: ControllerSpec[] = [
     manufacturer: 'Rain Bird',
     model: 'ESP-LXME2',
     application: 'Central scheduling',
-    stations: '8-48',
+    stations: '12-48',
     features: ['Modular', 'Wi-Fi', 'ET capable'],
+    baseStations: 12,
+    expansionModules: [
+      { model: 'ESPLXMSM8', stations: 8 },
+      { model: 'ESPLXMSM12', stations: 12 },
+    ],
+    maxModules: 3,
+    maxStations: 48,
+  },
+  {
+    id: 'esp-lxd',
+    name: 'Controller - Two-Wire',
+    manufacturer: 'Rain Bird',
+    model: 'ESP-LXD',
+    application: 'Two-wire decoder systems, large sites',
+    stations: '50-200',
+    features: ['Two-wire path', 'Decoder diagnostics', 'Flow sensing'],
+    baseStations: 50,
+    expansionModules: [{ model: 'ESPLXD-SM75', stations: 75 }],
+    maxModules: 2,
+    maxStations: 200,
   },
 ];
 
@@ -284,6 +468,14 @@ export const SENSORS: SensorSpec[] = [
   },
 ];
 
+// Smallest first
+export const FLOW_SENSORS: FlowSensorSpec[] = [
+  { id: 'fs100p', name: 'Flow Sensor - 1 inch', manufacturer: 'Rain Bird', model: 'FS100P', sizeIn: 1, minGPM: 1, maxGPM: 30 },
+  { id: 'fs150p', name: 'Flow Sensor - 1.5 inch', manufacturer: 'Rain Bird', model: 'FS150P', sizeIn: 1.5, minGPM: 2, maxGPM: 60 },
+  { id: 'fs200p', name: 'Flow Sensor - 2 inch', manufacturer: 'Rain Bird', model: 'FS200P', sizeIn: 2, minGPM: 4, maxGPM: 100 },
+  { id: 'fs300p', name: 'Flow Sensor - 3 inch', manufacturer: 'Rain Bird', model: 'FS300P', sizeIn: 3, minGPM: 8, maxGPM: 200 },
+];
+
 export const PIPES: PipeSpec[] = [
   {
     id: 'main-2in',
@@ -334,6 +526,13 @@ export const SWING_JOINT = {
   description: 'Triple swing, 6-inch flexible head connection',
 };
 
+export const CHECK_VALVE = {
+  name: 'Check Valve - In-Line',
+  manufacturer: 'Hunter',
+  model: 'HCV-50',
+  description: '1/2-inch, installs below the head, holds up to 14 ft of elevation',
+};
+
 export const VALVE_BOXES = {
   jumbo: {
     name: 'Valve Box - Standard',
@@ -341,6 +540,12 @@ export const VALVE_BOXES = {
     model: '1419-12',
     description: '14x19 jumbo, up to 4 valves',
   },
+  rectangular: {
+    name: 'Valve Box - Super Jumbo',
+    manufacturer: 'Carson',
+    model: '1730-12',
+    description: '17x30 rectangular, up to 6 valves',
+  },
   round: {
     name: 'Valve Box - Round',
     manufacturer: 'NDS',
@@ -350,8 +555,88 @@ export const VALVE_BOXES = {
 };
 
 export const WIRE = {
-  common: { name: 'Wire - Common', spec: '14 AWG UF, white', application: 'Common/ground wire' },
-  zone: { name: 'Wire - Zone', spec: '18 AWG UF, color-coded', application: 'Individual valve control' },
+  common: { name: 'Wire - Common', insulation: 'UF, white', application: 'Common/ground wire' },
+  zone: { name: 'Wire - Zone', insulation: 'UF, color-coded', application: 'Individual valve control' },
+  spare: { name: 'Wire - Spare', insulation: 'UF, yellow', application: 'Spare conductors coiled in each valve box' },
+};
+
+export interface WireGaugeSpec {
+  awg: number;
+  ohmsPer1000Ft: number; // solid copper at 68°F
+}
+
+// Thinnest first
+export const WIRE_GAUGES: WireGaugeSpec[] = [
+  { awg: 18, ohmsPer1000Ft: 6.385 },
+  { awg: 16, ohmsPer1000Ft: 4.016 },
+  { awg: 14, ohmsPer1000Ft: 2.525 },
+  { awg: 12, ohmsPer1000Ft: 1.588 },
+  { awg: 10, ohmsPer1000Ft: 0.999 },
+];
+
+// 24 VAC solenoid fitted to the PEB series valves, 60 Hz
+export const VALVE_SOLENOID = {
+  manufacturer: 'Rain Bird',
+  inrushAmps: 0.41,
+  holdingAmps: 0.28,
+};
+
+export const SPLICE_BOX = {
+  name: 'Splice Box',
+  manufacturer: 'Carson',
+  model: '910-12',
+  description: '10-inch round, for common wire splices off the valve boxes',
+};
+
+export const WIRE_CONNECTOR = {
+  name: 'Waterproof Wire Connector',
+  manufacturer: '3M',
+  model: 'DBR/Y-6',
+  description: 'Direct-burial splice kit, grease filled',
+};
+
+export interface DecoderSpec {
+  id: string;
+  name: string;
+  manufacturer: string;
+  model: string;
+  outputs: number; // valves one decoder can drive
+}
+
+// Fewest outputs first
+export const DECODERS: DecoderSpec[] = [
+  { id: 'fd-101', name: 'Field Decoder - 1 Station', manufacturer: 'Rain Bird', model: 'FD-101TURF', outputs: 1 },
+  { id: 'fd-202', name: 'Field Decoder - 2 Station', manufacturer: 'Rain Bird', model: 'FD-202TURF', outputs: 2 },
+  { id: 'fd-401', name: 'Field Decoder - 4 Station', manufacturer: 'Rain Bird', model: 'FD-401TURF', outputs: 4 },
+  { id: 'fd-601', name: 'Field Decoder - 6 Station', manufacturer: 'Rain Bird', model: 'FD-601TURF', outputs: 6 },
+];
+
+export interface TwoWireCableSpec {
+  awg: number;
+  name: string;
+  manufacturer: string;
+  model: string;
+  maxPathFt: number; // controller to the farthest decoder
+}
+
+// Thinnest first
+export const TWO_WIRE_CABLES: TwoWireCableSpec[] = [
+  { awg: 14, name: 'Two-Wire Cable - 14 AWG', manufacturer: 'Paige Electric', model: 'MAXI-Cable 14-2', maxPathFt: 10000 },
+  { awg: 12, name: 'Two-Wire Cable - 12 AWG', manufacturer: 'Paige Electric', model: 'MAXI-Cable 12-2', maxPathFt: 15000 },
+];
+
+export const SURGE_ARRESTOR = {
+  name: 'Line Surge Protector',
+  manufacturer: 'Rain Bird',
+  model: 'LSP-1TURF',
+  description: 'Two-wire path surge arrestor, in its own valve box',
+};
+
+export const GROUND_ROD = {
+  name: 'Ground Rod',
+  manufacturer: 'Paige Electric',
+  model: '182000',
+  description: '5/8 x 8 ft copper-clad, at each surge protector and the controller',
 };
 
 export const DRIP_KIT = {
@@ -361,6 +646,17 @@ export const DRIP_KIT = {
   description: '1-inch, 150 mesh filter, 30 PSI PRV',
 };
 
+export function selectController(wiringMode: WiringMode = 'conventional'): ControllerSpec {
+  return CONTROLLERS.find(c => c.id === (wiringMode === 'two-wire' ? 'esp-lxd' : 'esp-lxme2'))!;
+}
+
+// Smallest sensor that reads the whole range, else the smallest that reaches the top of it
+export function selectFlowSensor(minGPM: number, maxGPM: number): FlowSensorSpec {
+  return FLOW_SENSORS.find(s => s.minGPM <= minGPM && s.maxGPM >= maxGPM)
+    ?? FLOW_SENSORS.find(s => s.maxGPM >= maxGPM)
+    ?? FLOW_SENSORS[FLOW_SENSORS.length - 1];
+}
+
 export function selectHeadForZone(
   zoneType: 'turf' | 'bed' | 'narrow-strip' | 'tree-ring' | 'planter',
   maxDimensionFt: number,
@@ -390,3 +686,8 @@ export function selectValveForZone(totalGPM: number): ValveSpec {
   if (totalGPM > 15) return VALVES.find(v => v.id === 'peb-150')!;
   return VALVES.find(v => v.id === 'peb-100')!;
 }
+
+export function hasBuiltInCheckValve(model: string): boolean {
+  const spec = SPRINKLER_HEADS.find(h => h.model === model);
+  return !!spec && spec.features.some(f => /\bSAM\b|\bCV\b|check valve/i.test(f));
+}
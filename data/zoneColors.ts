@@ -15,6 +15,7 @@ export const ZONE_COLOR_NAMES: string[] = [
 
 export const MAINLINE_COLOR = '#1E3A5F';
 export const DRIP_SUPPLY_COLOR = '#92400E';
+export const CONTROL_WIRE_COLOR = '#B91C1C';
 export const COVERAGE_CIRCLE_OPACITY = 0.15;
 
 export function getZoneColor(zoneIndex: number): string {
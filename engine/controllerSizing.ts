@@ -0,0 +1,92 @@
+import { Zone, ControllerUnit } from '../types';
+import { RoutingResult } from './pipeRouting';
+import { DESIGN_RULES } from '../data/designRules';
+import { CONTROLLERS, ControllerSpec } from '../data/materials';
+
+/**
+ * Stations for every zone, the master valve and flow sensor, plus spares,
+ * against the selected controller's capacity. Past capacity the zones split
+ * evenly across identical controllers mounted side by side; the first one
+ * keeps the master valve and flow sensor. Each controller gets the fewest
+ * expansion modules that cover its stations.
+ */
+export function sizeControllers(
+  zones: Zone[],
+  routing: RoutingResult,
+  hasFlowSensor: boolean
+): { controllers: ControllerUnit[]; zones: Zone[] } {
+  const spec = CONTROLLERS.find(c => c.model === routing.controller.model)!;
+  const hasMaster = routing.valves.some(v => v.type === 'master');
+  const extras = (hasMaster ? 1 : 0) + (hasFlowSensor ? 1 : 0);
+  const ordered = [...zones].sort((a, b) => a.number - b.number);
+
+  let groups: Zone[][] = [];
+  for (let count = 1; ; count++) {
+    const size = Math.ceil(ordered.length / count);
+    groups = Array.from({ length: count }, (_, i) => ordered.slice(i * size, (i + 1) * size));
+    if (groups.every((g, i) => withSpares(g.length + (i === 0 ? extras : 0)) <= spec.maxStations)) break;
+    if (size <= 1) {
+      throw new Error(`A ${spec.model} cannot hold even one zone with the master valve, flow sensor and spares.`);
+    }
+  }
+
+  const stationOf = new Map<string, { controllerId: string; station: number }>();
+  const controllers: ControllerUnit[] = groups.map((group, i) => {
+    const id = `C-${i + 1}`;
+    group.forEach((zone, k) => stationOf.set(zone.id, { controllerId: id, station: k + 1 }));
+    let next = group.length + 1;
+    const masterValveStation = i === 0 && hasMaster ? next++ : null;
+    const flowSensorStation = i === 0 && hasFlowSensor ? next++ : null;
+    const used = next - 1;
+    const required = withSpares(used);
+    const modules = configureModules(spec, required);
+    const stationCapacity = spec.baseStations + modules.reduce((sum, m) => sum + m.stations, 0);
+    return {
+      id,
+      model: spec.model,
+      x: routing.controller.x + i * DESIGN_RULES.controller.stackSpacingFt,
+      y: routing.controller.y,
+      modules: modules.map(m => m.model),
+      stationCapacity,
+      zoneStations: group.length,
+      masterValveStation,
+      flowSensorStation,
+      spareStations: stationCapacity - used,
+    };
+  });
+
+  return {
+    controllers,
+    zones: zones.map(z => ({ ...z, ...stationOf.get(z.id) })),
+  };
+}
+
+function withSpares(stations: number): number {
+  const { spareStationFraction, minSpareStations } = DESIGN_RULES.controller;
+  return stations + Math.max(minSpareStations, Math.ceil(stations * spareStationFraction));
+}
+
+// Fewest modules, then least unused capacity, that bring the base up to the stations required
+function configureModules(spec: ControllerSpec, required: number): ControllerSpec['expansionModules'] {
+  let best: ControllerSpec['expansionModules'] = [];
+  let bestCapacity = spec.baseStations;
+  if (bestCapacity >= required) return best;
+
+  const search = (chosen: ControllerSpec['expansionModules'], from: number) => {
+    const capacity = spec.baseStations + chosen.reduce((sum, m) => sum + m.stations, 0);
+    if (capacity >= required) {
+      const better = bestCapacity < required
+        || chosen.length < best.length
+        || (chosen.length === best.length && capacity < bestCapacity);
+      if (better) {
+        best = chosen;
+        bestCapacity = capacity;
+      }
+      return;
+    }
+    if (chosen.length === spec.maxModules) return;
+    for (let m = from; m < spec.expansionModules.length; m++) search([...chosen, spec.expansionModules[m]], m);
+  };
+  search([], 0);
+  return best;
+}
@@ -0,0 +1,190 @@
+import { SiteAnalysis, HeadPlacement, Zone, AreaCoverage, CoverageReport, CoverageCell, DrySpot } from '../types';
+import { QUALITY_STANDARDS } from '../data/irrigationKnowledge';
+import { Point, isPointInPolygon, boundingBox, distance } from '../utils/geometry';
+import { siteFrame, zoneToFeet } from '../utils/coordinates';
+import { zoneOutline } from './headPlacement';
+
+const CELL_SIZE_FT = 1;
+const MAX_CELLS_PER_AREA = 20000;
+// Cells catching under / over these shares of the area average are dry / overwatered
+const DRY_SPOT_RATIO = 0.5;
+const OVERWATER_RATIO = 1.5;
+// SC is taken over the driest 5% of the area, as in a catch-can audit
+const SC_CRITICAL_FRACTION = 0.05;
+
+interface Raster {
+  cellSizeFt: number;
+  centers: Point[];
+  cols: number;
+  rows: number;
+  index: Map<number, number>; // row * cols + col -> position in centers
+}
+
+export function analyzeCoverage(
+  siteAnalysis: SiteAnalysis,
+  heads: HeadPlacement[],
+  zones: Zone[]
+): CoverageReport {
+  const frame = siteFrame(siteAnalysis);
+  const areas = [...siteAnalysis.turfZones, ...siteAnalysis.bedZones, ...siteAnalysis.narrowStrips];
+  const results: AreaCoverage[] = [];
+
+  for (const area of areas) {
+    const areaHeads = heads.filter(h => h.sourceAreaId === area.id && h.radiusFt > 0 && h.arc > 0);
+    if (areaHeads.length === 0) continue;
+
+    const outline = zoneOutline(zoneToFeet(area, frame));
+    const raster = rasterize(outline);
+    if (raster.centers.length === 0) continue;
+
+    const catches = raster.centers.map(pt => areaHeads.reduce((sum, h) => sum + precipitationAt(h, pt), 0));
+    const avg = mean(catches);
+    const sorted = [...catches].sort((a, b) => a - b);
+    const lowQuarter = mean(sorted.slice(0, Math.max(1, Math.floor(sorted.length / 4))));
+    const critical = mean(sorted.slice(0, Math.max(1, Math.floor(sorted.length * SC_CRITICAL_FRACTION))));
+
+    const duLowQuarter = avg > 0 ? lowQuarter / avg : 0;
+    // No SC when the driest cells catch nothing; the area fails on its dry spots
+    const schedulingCoefficient = critical > 0 ? avg / critical : null;
+    const headToHeadPct = headToHeadCoverage(areaHeads);
+    const zoneIds = zones.filter(z => areaHeads.some(h => h.zoneId === z.id)).map(z => z.id);
+
+    results.push({
+      areaId: area.id,
+      zoneIds,
+      cellSizeFt: raster.cellSizeFt,
+      avgPrecipInPerHr: round(avg, 2),
+      duLowQuarter: round(duLowQuarter, 2),
+      schedulingCoefficient: schedulingCoefficient === null ? null : round(schedulingCoefficient, 2),
+      headToHeadPct: Math.round(headToHeadPct),
+      drySpots: findDrySpots(raster, catches, avg * DRY_SPOT_RATIO),
+      cells: raster.centers.map((pt, i) => toCell(pt, catches[i], avg)),
+      passes: {
+        duLowQuarter: meetsStandard('distribution-uniformity-low-quarter', duLowQuarter),
+        schedulingCoefficient: schedulingCoefficient !== null && meetsStandard('scheduling-coefficient', schedulingCoefficient),
+        headToHead: meetsStandard('head-to-head-overlap', headToHeadPct),
+      },
+    });
+  }
+
+  return {
+    areas: results,
+    passes: results.every(r => r.passes.duLowQuarter && r.passes.schedulingCoefficient && r.passes.headToHead),
+  };
+}
+
+function rasterize(outline: Point[]): Raster {
+  const bb = boundingBox(outline);
+  let cellSizeFt = CELL_SIZE_FT;
+  while ((bb.width / cellSizeFt) * (bb.height / cellSizeFt) > MAX_CELLS_PER_AREA) {
+    cellSizeFt *= 1.25;
+  }
+
+  const cols = Math.max(1, Math.ceil(bb.width / cellSizeFt));
+  const rows = Math.max(1, Math.ceil(bb.height / cellSizeFt));
+  const centers: Point[] = [];
+  const index = new Map<number, number>();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const pt = { x: bb.minX + (col + 0.5) * cellSizeFt, y: bb.minY + (row + 0.5) * cellSizeFt };
+      if (!isPointInPolygon(pt, outline)) continue;
+      index.set(row * cols + col, centers.length);
+      centers.push(pt);
+    }
+  }
+  return { cellSizeFt, centers, cols, rows, index };
+}
+
+/**
+ * Precipitation (in/hr) a head puts down at a point. Water falls off
+ * linearly from the head to the end of its throw, scaled so the wetted
+ * wedge receives the head's full flow: PR = 96.25 * GPM / area.
+ */
+function precipitationAt(head: HeadPlacement, pt: Point): number {
+  const r = distance(head, pt);
+  if (r > head.radiusFt) return 0;
+  if (head.arc < 360) {
+    const bearing = (Math.atan2(pt.y - head.y, pt.x - head.x) * 180 / Math.PI + 360) % 360;
+    if (r > 0 && (bearing - head.rotation + 360) % 360 > head.arc) return 0;
+  }
+  const sweepRad = head.arc * Math.PI / 180;
+  // Integral of the (1 - r/R) profile over the wedge is sweep * R^2 / 6
+  const weightedArea = sweepRad * head.radiusFt * head.radiusFt / 6;
+  return 96.25 * head.gpm * (1 - r / head.radiusFt) / weightedArea;
+}
+
+// Share of the spacing to the nearest neighbour that each head's throw reaches; the worst head sets the area
+function headToHeadCoverage(heads: HeadPlacement[]): number {
+  if (heads.length < 2) return 100;
+  let worst = 100;
+  for (const head of heads) {
+    let nearest = Infinity;
+    for (const other of heads) {
+      if (other.id !== head.id) nearest = Math.min(nearest, distance(head, other));
+    }
+    if (nearest > 0) worst = Math.min(worst, Math.min(100, (head.radiusFt / nearest) * 100));
+  }
+  return worst;
+}
+
+// Groups neighbouring dry cells into spots, largest first
+function findDrySpots(raster: Raster, catches: number[], threshold: number): DrySpot[] {
+  const visited = new Set<number>();
+  const spots: DrySpot[] = [];
+  const cellArea = raster.cellSizeFt * raster.cellSizeFt;
+
+  for (const [key, i] of raster.index) {
+    if (visited.has(key) || catches[i] >= threshold) continue;
+    const stack = [key];
+    visited.add(key);
+    let sumX = 0, sumY = 0, count = 0;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const pt = raster.centers[raster.index.get(cell)!];
+      sumX += pt.x;
+      sumY += pt.y;
+      count++;
+      const row = Math.floor(cell / raster.cols);
+      const col = cell % raster.cols;
+      const neighbours = [
+        col > 0 ? cell - 1 : -1,
+        col < raster.cols - 1 ? cell + 1 : -1,
+        row > 0 ? cell - raster.cols : -1,
+        row < raster.rows - 1 ? cell + raster.cols : -1,
+      ];
+      for (const n of neighbours) {
+        if (n < 0 || visited.has(n)) continue;
+        const j = raster.index.get(n);
+        if (j === undefined || catches[j] >= threshold) continue;
+        visited.add(n);
+        stack.push(n);
+      }
+    }
+    spots.push({ x: round(sumX / count, 1), y: round(sumY / count, 1), areaFt2: round(count * cellArea, 1) });
+  }
+
+  return spots.sort((a, b) => b.areaFt2 - a.areaFt2);
+}
+
+function toCell(pt: Point, precip: number, avg: number): CoverageCell {
+  const status = precip < avg * DRY_SPOT_RATIO ? 'dry' : precip > avg * OVERWATER_RATIO ? 'wet' : 'even';
+  return { x: round(pt.x, 2), y: round(pt.y, 2), precipInPerHr: round(precip, 3), status };
+}
+
+// Every metric passes at its target; those whose excellent value sits below target (SC) pass at or under it
+function meetsStandard(metric: string, value: number): boolean {
+  const standard = QUALITY_STANDARDS.find(s => s.metric === metric);
+  if (!standard) return true;
+  return standard.excellentValue < standard.targetValue
+    ? value <= standard.targetValue
+    : value >= standard.targetValue;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function round(value: number, places: number): number {
+  const f = Math.pow(10, places);
+  return Math.round(value * f) / f;
+}
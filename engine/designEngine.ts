@@ -1,37 +1,75 @@
 import { SiteAnalysis, ProjectInput, IrrigationDesign } from '../types';
+import { Point } from '../utils/geometry';
 import { placeAllHeads } from './headPlacement';
 import { assignZones } from './zoneAssignment';
-import { routePipes } from './pipeRouting';
+import { routePipes, locatePoc } from './pipeRouting';
 import { calculateMaterials } from './materialCalc';
+import { analyzeCoverage } from './coverageAnalysis';
+import { calculateSupplyCapacity } from './supplyCapacity';
+import { managePressure } from './pressureManagement';
+import { sizePipes } from './pipeSizing';
+import { buildGradeModel, applyGradeToAreas } from './gradeModel';
+import { detectSleeves } from './sleeveDetection';
+import { routeWires } from './wireRouting';
+import { routeTwoWire } from './twoWireRouting';
+import { sizeControllers } from './controllerSizing';
+import { planFlowMonitoring } from './flowMonitoring';
 
 export function generateIrrigationDesign(
-  siteAnalysis: SiteAnalysis,
+  analysis: SiteAnalysis,
   projectInput: ProjectInput
 ): IrrigationDesign {
+  const grade = buildGradeModel(analysis, projectInput.imageMarkup?.spotElevations);
+  const siteAnalysis = applyGradeToAreas(analysis, grade);
+  const supply = calculateSupplyCapacity(projectInput);
   const rawHeads = placeAllHeads(siteAnalysis, projectInput);
-  const { zones, updatedHeads } = assignZones(rawHeads);
-  const routing = routePipes(siteAnalysis, updatedHeads, zones, projectInput);
+  const { zones, updatedHeads } = assignZones(rawHeads, siteAnalysis, locatePoc(siteAnalysis, projectInput), supply.availableGPM);
+  const routed = routePipes(siteAnalysis, updatedHeads, zones, projectInput, supply);
+  const routing = { ...routed, pipes: sizePipes(routed.pipes, updatedHeads, zones, routed.backflow) };
+  const hydraulics = managePressure(updatedHeads, zones, routing, projectInput, grade.elevationAt);
+  const { controllers, zones: stationedZones } = sizeControllers(zones, routing, routing.flowSensor !== null);
+  const flowMonitoring = routing.flowSensor ? planFlowMonitoring(routing.flowSensor, zones, hydraulics.report) : undefined;
+  const twoWire = projectInput.wiringMode === 'two-wire' ? routeTwoWire(siteAnalysis, routing, stationedZones, controllers) : undefined;
+  const wiring = twoWire ? undefined : routeWires(siteAnalysis, routing, stationedZones, controllers);
+  const sleeves = detectSleeves(
+    siteAnalysis,
+    routing.pipes,
+    (twoWire ?? wiring)!.segments.map(s => [{ x: s.startX, y: s.startY }, { x: s.endX, y: s.endY }] as [Point, Point])
+  );
 
   const totalSystemGPM = zones.reduce((sum, z) => sum + z.totalGPM, 0);
 
   const partialDesign = {
-    heads: updatedHeads,
+    heads: hydraulics.heads,
     pipes: routing.pipes,
-    zones,
+    zones: stationedZones,
     valves: routing.valves,
+    valveBoxes: routing.valveBoxes,
     controller: routing.controller,
+    controllers,
+    flowMonitoring,
     backflow: routing.backflow,
     poc: routing.poc,
     rainSensor: routing.rainSensor,
-    zoneSchedule: zones,
+    zoneSchedule: stationedZones,
     totalSystemGPM: Math.round(totalSystemGPM * 10) / 10,
     totalZones: zones.length,
+    supply,
+    gradeSource: grade.source,
+    hydraulics: hydraulics.report,
+    pressure: hydraulics.pressure,
+    sleeves,
+    wiring,
+    twoWire,
   };
 
   const materialSchedule = calculateMaterials(partialDesign as any);
 
+  const coverage = analyzeCoverage(siteAnalysis, hydraulics.heads, zones);
+
   return {
     ...partialDesign,
     materialSchedule,
+    coverage,
   };
 }
@@ -0,0 +1,43 @@
+import { Zone, HydraulicReport, FlowSensorPlacement, FlowMonitoring, ZoneFlowAlarm } from '../types';
+import { DESIGN_RULES } from '../data/designRules';
+
+/**
+ * Expected flow and alarm limits for each zone. The controller learns each
+ * station's actual flow at commissioning; the limits are set as percentages
+ * of that, and the design flows here are what the learned values should be
+ * close to.
+ */
+export function planFlowMonitoring(sensor: FlowSensorPlacement, zones: Zone[], report: HydraulicReport): FlowMonitoring {
+  const { highFlowPercent, lowFlowPercent } = DESIGN_RULES.flowSensor;
+  const alarms: ZoneFlowAlarm[] = zones.map(zone => {
+    const expectedGPM = report.zones.find(z => z.zoneId === zone.id)?.flowGPM ?? zone.totalGPM;
+    return {
+      zoneId: zone.id,
+      expectedGPM: round1(expectedGPM),
+      lowAlarmGPM: round1(expectedGPM * lowFlowPercent / 100),
+      highAlarmGPM: round1(expectedGPM * highFlowPercent / 100),
+      belowSensorRange: expectedGPM * lowFlowPercent / 100 < sensor.minGPM,
+    };
+  });
+
+  const notes = [
+    `Install ${sensor.manufacturer} ${sensor.model} downstream of the master valve with ${DESIGN_RULES.flowSensor.straightRunDiameters} pipe diameters of straight pipe upstream.`,
+    `Run the controller's learn-flow on every station after commissioning; set high flow at ${highFlowPercent}% and low flow at ${lowFlowPercent}% of learned flow, closing the master valve on a high-flow alarm.`,
+  ];
+  const straightRunFt = DESIGN_RULES.flowSensor.straightRunDiameters * sensor.sizeIn / 12;
+  if (sensor.upstreamRunFt < straightRunFt) {
+    const tee = sensor.upstreamRunFt > 0 ? `${sensor.upstreamRunFt} ft below` : 'right at';
+    notes.push(`Mainline tees ${tee} the master valve, short of the sensor's ${Math.ceil(straightRunFt)} ft straight run; expect less accurate readings.`);
+  }
+  const belowRange = alarms.filter(a => a.belowSensorRange);
+  if (belowRange.length > 0) {
+    const numbers = belowRange.map(a => zones.find(z => z.id === a.zoneId)!.number).join(', ');
+    notes.push(`Zone(s) ${numbers} (*): low-flow limit is below the sensor's ${sensor.minGPM} GPM minimum; low-flow alarms there are not reliable.`);
+  }
+
+  return { sensor, zones: alarms, notes };
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
@@ -0,0 +1,171 @@
+import { SiteAnalysis, IrrigableZone, SpotElevation, GradeSource } from '../types';
+import { Point, distance } from '../utils/geometry';
+import { siteFrame, normalizedToFeet, zoneToFeet, SiteFrame } from '../utils/coordinates';
+
+// Site-ft point to elevation in feet; only differences between points matter
+export type ElevationFn = (pt: Point) => number;
+
+export interface GradeModel {
+  source: GradeSource;
+  elevationAt: ElevationFn;
+}
+
+// Inverse-distance weighting exponent for interpolating between spot elevations
+const IDW_POWER = 2;
+const SPOT_TOLERANCE_FT = 0.1;
+// Slopes flatter than this (1000:1) are reported as level
+const MIN_GRADE = 0.001;
+// Relaxation sweeps when tying the slope indicators' planes to one datum
+const ANCHOR_SWEEPS = 100;
+
+// Downhill gradient at a slope indicator, so elevation falls along it
+interface LocalPlane {
+  at: Point;
+  gradient: Point;
+}
+
+// Compass headings in site feet, +y pointing south down the image
+const COMPASS: Array<[RegExp, Point]> = [
+  [/\b(north-?east|ne)\b/, { x: Math.SQRT1_2, y: -Math.SQRT1_2 }],
+  [/\b(north-?west|nw)\b/, { x: -Math.SQRT1_2, y: -Math.SQRT1_2 }],
+  [/\b(south-?east|se)\b/, { x: Math.SQRT1_2, y: Math.SQRT1_2 }],
+  [/\b(south-?west|sw)\b/, { x: -Math.SQRT1_2, y: Math.SQRT1_2 }],
+  [/\b(north|n)\b/, { x: 0, y: -1 }],
+  [/\b(south|s)\b/, { x: 0, y: 1 }],
+  [/\b(east|e)\b/, { x: 1, y: 0 }],
+  [/\b(west|w)\b/, { x: -1, y: 0 }],
+];
+
+/**
+ * Grade across the site, best source first: marked or imported spot
+ * elevations interpolated by inverse distance, else each slope indicator's
+ * local plane blended the same way, else flat.
+ */
+export function buildGradeModel(siteAnalysis: SiteAnalysis, spots: SpotElevation[] = []): GradeModel {
+  const frame = siteFrame(siteAnalysis);
+
+  if (spots.length > 0) {
+    const points = spots.map(s => ({ ...normalizedToFeet(s.point, frame), elevationFt: s.elevationFt }));
+    return {
+      source: 'spot-elevations',
+      elevationAt: pt => {
+        let weightSum = 0;
+        let valueSum = 0;
+        for (const p of points) {
+          const d = distance(p, pt);
+          if (d <= SPOT_TOLERANCE_FT) return p.elevationFt;
+          const w = 1 / Math.pow(d, IDW_POWER);
+          weightSum += w;
+          valueSum += w * p.elevationFt;
+        }
+        return valueSum / weightSum;
+      },
+    };
+  }
+
+  const planes = siteAnalysis.slopeIndicators
+    .map(s => ({ at: normalizedToFeet(s.location, frame), gradient: slopeVector(s.direction, s.ratio) }))
+    .filter((p): p is LocalPlane => p.gradient !== null);
+  if (planes.length > 0) {
+    const anchors = anchorPlanes(planes);
+    // Each indicator's plane, blended by inverse distance so opposing slopes keep their own sides
+    const planeAt = (p: LocalPlane, i: number, pt: Point) =>
+      anchors[i] - (p.gradient.x * (pt.x - p.at.x) + p.gradient.y * (pt.y - p.at.y));
+    return {
+      source: 'slope-indicators',
+      elevationAt: pt => {
+        let weightSum = 0;
+        let valueSum = 0;
+        for (let i = 0; i < planes.length; i++) {
+          const d = distance(planes[i].at, pt);
+          if (d <= SPOT_TOLERANCE_FT) return planeAt(planes[i], i, pt);
+          const w = 1 / Math.pow(d, IDW_POWER);
+          weightSum += w;
+          valueSum += w * planeAt(planes[i], i, pt);
+        }
+        return valueSum / weightSum;
+      },
+    };
+  }
+
+  return { source: 'flat', elevationAt: () => 0 };
+}
+
+/**
+ * Fill in each irrigable area's slope from the grade model so zone
+ * separation sees slopes the analysis did not report. Spot elevations are
+ * measured, so they replace any estimated ratio.
+ */
+export function applyGradeToAreas(siteAnalysis: SiteAnalysis, grade: GradeModel): SiteAnalysis {
+  if (grade.source === 'flat') return siteAnalysis;
+  const frame = siteFrame(siteAnalysis);
+  const withSlope = (area: IrrigableZone): IrrigableZone => {
+    if (area.slopeRatio && grade.source !== 'spot-elevations') return area;
+    const slopeRatio = areaSlopeRatio(area, frame, grade.elevationAt);
+    return slopeRatio ? { ...area, slopeRatio } : area;
+  };
+  return {
+    ...siteAnalysis,
+    turfZones: siteAnalysis.turfZones.map(withSlope),
+    bedZones: siteAnalysis.bedZones.map(withSlope),
+    narrowStrips: siteAnalysis.narrowStrips.map(withSlope),
+  };
+}
+
+/**
+ * Elevation of each indicator relative to the first. Neighbouring pairs
+ * should differ by the mean of their two gradients over the run between
+ * them; the weighted least-squares fit is relaxed in place, nearer pairs
+ * counting for more.
+ */
+function anchorPlanes(planes: LocalPlane[]): number[] {
+  const anchors = planes.map(() => 0);
+  for (let sweep = 0; sweep < ANCHOR_SWEEPS; sweep++) {
+    for (let i = 1; i < planes.length; i++) {
+      let weightSum = 0;
+      let valueSum = 0;
+      for (let j = 0; j < planes.length; j++) {
+        const d = distance(planes[i].at, planes[j].at);
+        if (j === i || d <= SPOT_TOLERANCE_FT) continue;
+        const gx = (planes[i].gradient.x + planes[j].gradient.x) / 2;
+        const gy = (planes[i].gradient.y + planes[j].gradient.y) / 2;
+        const w = 1 / Math.pow(d, IDW_POWER);
+        weightSum += w;
+        valueSum += w * (anchors[j] - (gx * (planes[i].at.x - planes[j].at.x) + gy * (planes[i].at.y - planes[j].at.y)));
+      }
+      if (weightSum > 0) anchors[i] = valueSum / weightSum;
+    }
+  }
+  return anchors;
+}
+
+// Steepest grade from the area's center to its outline, as run:rise
+function areaSlopeRatio(area: IrrigableZone, frame: SiteFrame, elevationAt: ElevationFn): string | null {
+  const { boundary, center } = zoneToFeet(area, frame);
+  if (boundary.length < 3) return null;
+  const centerFt = elevationAt(center);
+  let steepest = 0;
+  for (const v of boundary) {
+    const run = distance(v, center);
+    if (run > 0) steepest = Math.max(steepest, Math.abs(elevationAt(v) - centerFt) / run);
+  }
+  if (steepest < MIN_GRADE) return null;
+  return `${Math.round(10 / steepest) / 10}:1`;
+}
+
+// Downhill direction scaled by rise/run; ratios are run:rise ('3:1') or percent ('25%')
+function slopeVector(direction: string, ratio: string): Point | null {
+  const dir = COMPASS.find(([pattern]) => pattern.test(direction.toLowerCase()));
+  if (!dir) return null;
+
+  let grade: number;
+  const percent = ratio.match(/([\d.]+)\s*%/);
+  if (percent) {
+    grade = parseFloat(percent[1]) / 100;
+  } else {
+    const [run, rise] = ratio.split(':').map(Number);
+    if (!run || !rise) return null;
+    grade = rise / run;
+  }
+  return { x: dir[1].x * grade, y: dir[1].y * grade };
+}
@@ -1,16 +1,45 @@
-import { SiteAnalysis, IrrigableZone, HeadPlacement, ProjectInput } from '../types';
-import { selectHeadForZone, SPRINKLER_HEADS } from '../data/materials';
-import { generateGridPoints, isPointInPolygon, boundingBox } from '../utils/geometry';
+import { SiteAnalysis, HeadPlacement, ProjectInput } from '../types';
+import { selectHeadForZone, selectValveForZone, SPRINKLER_HEADS, HeadSpec } from '../data/materials';
+import { DESIGN_RULES, getMainlineSizeIn } from '../data/designRules';
+import { getNozzlePerformance } from '../data/nozzlePerformance';
+import { getDevicePressureLoss, lookupFrictionLoss } from '../data/hydraulics';
+import { locatePoc } from './pipeRouting';
+import { calculateSupplyCapacity } from './supplyCapacity';
+import { valveLoss } from './hydraulicSolver';
+import {
+  Point,
+  generateGridPoints,
+  isPointInPolygon,
+  boundingBox,
+  distance,
+  distanceToSegment,
+  distanceToPolygonEdge,
+  angleBetween,
+  closestPointOnSegment,
+  segmentIntervalsInPolygon,
+} from '../utils/geometry';
+import { SiteZone, siteFrame, zoneToFeet } from '../utils/coordinates';
 
 let headCounter = 0;
 
+// Vertices turning less than this are treated as part of a straight edge
+const STRAIGHT_VERTEX_TOLERANCE_RAD = Math.PI / 12;
+// Heads this close to the outline are treated as sitting on it
+const BOUNDARY_TOLERANCE_FT = 1;
+const ARC_PROBE_FT = 0.5;
+// End heads of a strip row sit this far in from the tips, inside the boundary tolerance
+const STRIP_END_INSET_FT = 0.25;
+// Lateral friction is unknown until pipes are routed
+const LATERAL_LOSS_ALLOWANCE_PSI = 3;
+
 function nextHeadId(): string {
   return `H-${++headCounter}`;
 }
 
 function placeHeadsInZone(
-  zone: IrrigableZone,
-  isAthleticField: boolean
+  zone: SiteZone,
+  isAthleticField: boolean,
+  pressureAt: (pt: Point) => number
 ): HeadPlacement[] {
   const maxDim = Math.max(zone.widthFt, zone.lengthFt);
   const headSpec = selectHeadForZone(zone.type, maxDim, isAthleticField);
@@ -19,76 +48,311 @@ function placeHeadsInZone(
     return placeDripZone(zone, headSpec);
   }
 
-  const spacing = headSpec.defaultRadiusFt;
   const pattern = isAthleticField ? 'triangular' : 'square';
+  const outline = zoneOutline(zone);
 
-  const bb = zone.boundaryPoints.length > 0
-    ? boundingBox(zone.boundaryPoints)
-    : { minX: zone.centerX - zone.widthFt / 2, minY: zone.centerY - zone.lengthFt / 2, maxX: zone.centerX + zone.widthFt / 2, maxY: zone.centerY + zone.lengthFt / 2, width: zone.widthFt, height: zone.lengthFt };
-
-  const gridPoints = generateGridPoints(
-    bb.minX, bb.minY,
-    bb.width, bb.height,
-    spacing, spacing,
-    pattern
-  );
-
-  const heads: HeadPlacement[] = [];
-  for (const pt of gridPoints) {
-    const inBounds = zone.boundaryPoints.length >= 3
-      ? isPointInPolygon(pt, zone.boundaryPoints)
-      : true;
-    if (inBounds) {
-      const arc = determineArc(pt, bb);
-      heads.push({
-        id: nextHeadId(),
-        x: pt.x,
-        y: pt.y,
-        type: headSpec.category === 'rotary-nozzle' ? 'rotary-nozzle' : headSpec.category === 'strip' ? 'strip' : headSpec.category === 'rotor' ? 'rotor' : 'spray',
-        model: headSpec.model,
-        manufacturer: headSpec.manufacturer,
-        arc,
-        radiusFt: headSpec.defaultRadiusFt,
-        gpm: adjustGPMForArc(headSpec.gpmAtDefaultRadius, arc),
-        psi: headSpec.psi,
-        nozzle: headSpec.nozzle,
-        zoneId: '',
-      });
+  // Space for the weakest pressure in the zone so coverage holds at every head
+  const minPressure = Math.min(...outline.map(pressureAt));
+  const zoneNozzle = chooseZoneNozzle(headSpec, minPressure, Math.min(zone.widthFt, zone.lengthFt));
+  const spacing = zoneNozzle ? zoneNozzle.radiusFt : headSpec.defaultRadiusFt;
+  const layout = Math.min(zone.widthFt, zone.lengthFt) <= DESIGN_RULES.layoutPatterns.irregular.narrowStripThresholdFt
+    ? layoutStripRow(outline, spacing)
+    : layoutHeads(outline, spacing, pattern);
+
+  return layout.map(pt => {
+    const { arc, rotation } = computeArc(pt, outline);
+    const nozzle = chooseHeadNozzle(headSpec, pressureAt(pt), spacing);
+    return {
+      id: nextHeadId(),
+      x: pt.x,
+      y: pt.y,
+      type: headSpec.category === 'rotary-nozzle' ? 'rotary-nozzle' : headSpec.category === 'strip' ? 'strip' : headSpec.category === 'rotor' ? 'rotor' : 'spray',
+      model: headSpec.model,
+      manufacturer: headSpec.manufacturer,
+      arc,
+      rotation,
+      radiusFt: nozzle ? Math.round(nozzle.radiusFt * 10) / 10 : headSpec.defaultRadiusFt,
+      gpm: adjustGPMForArc(nozzle ? nozzle.gpm : headSpec.gpmAtDefaultRadius, arc),
+      psi: nozzle ? Math.round(nozzle.psi) : headSpec.psi,
+      nozzle: nozzle ? nozzle.nozzleId : headSpec.nozzle,
+      zoneId: '',
+      sourceAreaId: zone.id,
+    };
+  });
+}
+
+interface NozzleChoice {
+  nozzleId: string;
+  radiusFt: number;
+  gpm: number;
+  psi: number;
+}
+
+function nozzleChoicesAt(headSpec: HeadSpec, availablePSI: number): NozzleChoice[] {
+  // PRS/PC bodies hold the nozzle at their regulated pressure when supply allows
+  const psi = headSpec.regulatedPSI ? Math.min(availablePSI, headSpec.regulatedPSI) : availablePSI;
+  const choices: NozzleChoice[] = [];
+  for (const nozzleId of headSpec.nozzleIds) {
+    const perf = getNozzlePerformance(nozzleId, psi);
+    if (perf) choices.push({ nozzleId, radiusFt: perf.radiusFt, gpm: perf.gpm, psi });
+  }
+  return choices;
+}
+
+// Largest throw that still fits across the zone's narrow dimension
+function chooseZoneNozzle(headSpec: HeadSpec, availablePSI: number, narrowDimFt: number): NozzleChoice | null {
+  const choices = nozzleChoicesAt(headSpec, availablePSI);
+  if (choices.length === 0) return null;
+  const fitting = choices.filter(c => c.radiusFt <= narrowDimFt);
+  const pool = fitting.length > 0 ? fitting : choices;
+  return pool.reduce((best, c) => (fitting.length > 0 ? c.radiusFt > best.radiusFt : c.radiusFt < best.radiusFt) ? c : best);
+}
+
+// Smallest nozzle at this head's pressure that still reaches head-to-head spacing
+function chooseHeadNozzle(headSpec: HeadSpec, availablePSI: number, spacingFt: number): NozzleChoice | null {
+  const choices = nozzleChoicesAt(headSpec, availablePSI);
+  if (choices.length === 0) return null;
+  const reaching = choices.filter(c => c.radiusFt >= spacingFt * 0.95);
+  if (reaching.length > 0) {
+    return reaching.reduce((best, c) => c.radiusFt < best.radiusFt ? c : best);
+  }
+  return choices.reduce((best, c) => c.radiusFt > best.radiusFt ? c : best);
+}
+
+/**
+ * Static pressure less the fixed losses ahead of every zone (meter, RPZ,
+ * the zone valve as the solver charges it, a lateral allowance) and
+ * mainline friction over the distance from the POC. An estimate for
+ * layout; the routed network is solved later and the nozzles re-rated.
+ */
+function createPressureEstimator(siteAnalysis: SiteAnalysis, projectInput: ProjectInput): (pt: Point) => number {
+  const poc = locatePoc(siteAnalysis, projectInput);
+  const supplyIn = projectInput.waterSupplySize;
+  const supply = calculateSupplyCapacity(projectInput);
+  const zoneGPM = Math.min(DESIGN_RULES.hydraulics.maxGPMPerZone1inLateral, supply.availableGPM);
+  const atZoneValve = projectInput.staticPressurePSI
+    - getDevicePressureLoss('meter', supplyIn)
+    - getDevicePressureLoss('rpz', supplyIn)
+    - valveLoss(selectValveForZone(zoneGPM).sizeIn, zoneGPM)
+    - LATERAL_LOSS_ALLOWANCE_PSI;
+  const mainlineLossPerFt = (lookupFrictionLoss(getMainlineSizeIn(supply.availableGPM), zoneGPM) ?? 0) / 100;
+  return pt => Math.max(0, atZoneValve - mainlineLossPerFt * distance(poc, pt));
+}
+
+// Zones without a traced boundary are laid out as a rectangle around the center
+export function zoneOutline(zone: SiteZone): Point[] {
+  if (zone.boundary.length >= 3) return zone.boundary;
+  const halfW = zone.widthFt / 2;
+  const halfL = zone.lengthFt / 2;
+  return [
+    { x: zone.center.x - halfW, y: zone.center.y - halfL },
+    { x: zone.center.x + halfW, y: zone.center.y - halfL },
+    { x: zone.center.x + halfW, y: zone.center.y + halfL },
+    { x: zone.center.x - halfW, y: zone.center.y + halfL },
+  ];
+}
+
+/**
+ * DESIGN_RULES.layoutPatterns: corners first, then each edge at head-to-head
+ * spacing, then the interior. Works edge by edge, so concave outlines keep
+ * heads on every boundary instead of relying on a bounding-box grid.
+ */
+function layoutHeads(outline: Point[], spacing: number, pattern: 'square' | 'triangular'): Point[] {
+  const points: Point[] = [];
+  const minGap = spacing * 0.5;
+  const tryAdd = (pt: Point) => {
+    if (points.some(p => distance(p, pt) < minGap)) return;
+    points.push({ x: pt.x, y: pt.y });
+  };
+
+  const corners = significantCorners(outline);
+
+  // 1. Corners
+  for (const c of corners) {
+    tryAdd(c);
+  }
+
+  // 2. Perimeter, evenly divided so no gap exceeds the spacing
+  for (let i = 0; i < corners.length; i++) {
+    const a = corners[i];
+    const b = corners[(i + 1) % corners.length];
+    const segments = Math.ceil(distance(a, b) / spacing);
+    for (let k = 1; k < segments; k++) {
+      const t = k / segments;
+      tryAdd({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
     }
   }
-  return heads;
+
+  // 3. Interior fill, divided like the perimeter so the grid lines up with the edge heads
+  const bb = boundingBox(outline);
+  const rowSpacing = pattern === 'triangular' ? spacing * Math.sqrt(3) / 2 : spacing;
+  const colStep = bb.width / Math.max(1, Math.ceil(bb.width / spacing));
+  const rowStep = bb.height / Math.max(1, Math.ceil(bb.height / rowSpacing));
+  const grid = generateGridPoints(bb.minX, bb.minY, bb.width, bb.height, colStep, rowStep, pattern)
+    .filter(pt => isPointInPolygon(pt, outline));
+  const nearEdge = grid.filter(pt => distanceToPolygonEdge(pt, outline) < minGap);
+  for (const pt of grid) {
+    if (!nearEdge.includes(pt)) tryAdd(pt);
+  }
+  // Points crowding the perimeter row only go in where they close a gap wider than the
+  // spacing, and then on the boundary itself so they get an edge arc like the rest of the row
+  for (const pt of nearEdge.map(p => closestPointOnOutline(p, outline))) {
+    if (points.some(p => distance(p, pt) <= spacing)) continue;
+    tryAdd(pt);
+  }
+
+  return points;
 }
 
-function placeDripZone(zone: IrrigableZone, headSpec: typeof SPRINKLER_HEADS[0]): HeadPlacement[] {
+/**
+ * Zones too narrow for two rows get a single row along the outline's
+ * principal axis. Each head sits midway across the strip where a line
+ * square to the axis cuts it, so the row follows a diagonal or bent strip
+ * instead of its bounding box; stations where the line misses are skipped.
+ */
+function layoutStripRow(outline: Point[], spacing: number): Point[] {
+  const { center, dir } = principalAxis(outline);
+  const across = { x: -dir.y, y: dir.x };
+  const along = outline.map(p => (p.x - center.x) * dir.x + (p.y - center.y) * dir.y);
+  const halfWidth = Math.max(...outline.map(p => Math.abs((p.x - center.x) * across.x + (p.y - center.y) * across.y))) + 1;
+  const start = Math.min(...along) + STRIP_END_INSET_FT;
+  const length = Math.max(0, Math.max(...along) - STRIP_END_INSET_FT - start);
+  const segments = Math.max(1, Math.ceil(length / spacing));
+
+  const points: Point[] = [];
+  for (let k = 0; k <= segments; k++) {
+    const s = start + length * k / segments;
+    const mid = { x: center.x + dir.x * s, y: center.y + dir.y * s };
+    const a = { x: mid.x - across.x * halfWidth, y: mid.y - across.y * halfWidth };
+    const b = { x: mid.x + across.x * halfWidth, y: mid.y + across.y * halfWidth };
+    const spans = segmentIntervalsInPolygon(a, b, outline);
+    if (spans.length === 0) continue;
+    const [t0, t1] = spans.reduce((w, sp) => sp[1] - sp[0] > w[1] - w[0] ? sp : w);
+    const t = (t0 + t1) / 2;
+    points.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  }
+  return points;
+}
+
+// Centroid and long-axis direction of the outline, treating its edges as uniform wire
+function principalAxis(outline: Point[]): { center: Point; dir: Point } {
+  const edges = outline.map((a, i) => [a, outline[(i + 1) % outline.length]] as const);
+  const total = edges.reduce((sum, [a, b]) => sum + distance(a, b), 0) || 1;
+  const center = edges.reduce((c, [a, b]) => {
+    const w = distance(a, b) / total;
+    return { x: c.x + w * (a.x + b.x) / 2, y: c.y + w * (a.y + b.y) / 2 };
+  }, { x: 0, y: 0 });
+
+  let sxx = 0, syy = 0, sxy = 0;
+  for (const [a, b] of edges) {
+    const len = distance(a, b);
+    const mx = (a.x + b.x) / 2 - center.x, my = (a.y + b.y) / 2 - center.y;
+    const dx = b.x - a.x, dy = b.y - a.y;
+    sxx += len * (mx * mx + dx * dx / 12);
+    syy += len * (my * my + dy * dy / 12);
+    sxy += len * (mx * my + dx * dy / 12);
+  }
+  const angle = Math.atan2(2 * sxy, sxx - syy) / 2;
+  return { center, dir: { x: Math.cos(angle), y: Math.sin(angle) } };
+}
+
+function closestPointOnOutline(pt: Point, outline: Point[]): Point {
+  let best = outline[0];
+  let bestDist = Infinity;
+  for (let i = 0; i < outline.length; i++) {
+    const q = closestPointOnSegment(pt, outline[i], outline[(i + 1) % outline.length]);
+    const d = distance(pt, q);
+    if (d < bestDist) {
+      bestDist = d;
+      best = q;
+    }
+  }
+  return best;
+}
+
+// Drops near-straight vertices so traced outlines don't get a corner head at every click
+function significantCorners(outline: Point[]): Point[] {
+  const n = outline.length;
+  const corners: Point[] = [];
+  for (let i = 0; i < n; i++) {
+    const prev = outline[(i + n - 1) % n];
+    const curr = outline[i];
+    const next = outline[(i + 1) % n];
+    const turn = Math.abs(normalizeAngle(angleBetween(curr, next) - angleBetween(prev, curr)));
+    if (turn >= STRAIGHT_VERTEX_TOLERANCE_RAD) corners.push(curr);
+  }
+  return corners.length >= 3 ? corners : outline;
+}
+
+function normalizeAngle(rad: number): number {
+  while (rad > Math.PI) rad -= 2 * Math.PI;
+  while (rad < -Math.PI) rad += 2 * Math.PI;
+  return rad;
+}
+
+/**
+ * Arc and start angle from the boundary at the head. A head on a vertex
+ * throws between that vertex's two edges, a head on an edge throws a half
+ * circle into the zone, and anything else is full circle. Angles are in
+ * degrees, clockwise from +x (plan y points down), sweeping clockwise.
+ */
+function computeArc(pt: Point, outline: Point[]): { arc: number; rotation: number } {
+  const n = outline.length;
+  let rays: [Point, Point] | null = null;
+
+  const vertexIdx = outline.findIndex(v => distance(v, pt) <= BOUNDARY_TOLERANCE_FT);
+  if (vertexIdx >= 0) {
+    rays = [outline[(vertexIdx + n - 1) % n], outline[(vertexIdx + 1) % n]];
+  } else {
+    let nearest = Infinity;
+    for (let i = 0; i < n; i++) {
+      const a = outline[i], b = outline[(i + 1) % n];
+      const d = distanceToSegment(pt, a, b);
+      if (d <= BOUNDARY_TOLERANCE_FT && d < nearest) {
+        nearest = d;
+        rays = [a, b];
+      }
+    }
+  }
+  if (!rays) return { arc: 360, rotation: 0 };
+
+  const r1 = toDegrees(angleBetween(pt, rays[0]));
+  const r2 = toDegrees(angleBetween(pt, rays[1]));
+  const span = (r2 - r1 + 360) % 360 || 360;
+
+  // Whichever wedge between the two rays points into the zone is the throw
+  const mid = (r1 + span / 2) * Math.PI / 180;
+  const probe = { x: pt.x + Math.cos(mid) * ARC_PROBE_FT, y: pt.y + Math.sin(mid) * ARC_PROBE_FT };
+  const inside = isPointInPolygon(probe, outline);
+
+  return inside
+    ? { arc: Math.round(span), rotation: Math.round((r1 + 360) % 360) }
+    : { arc: Math.round(360 - span), rotation: Math.round((r2 + 360) % 360) };
+}
+
+function toDegrees(rad: number): number {
+  return rad * 180 / Math.PI;
+}
+
+function placeDripZone(zone: SiteZone, headSpec: typeof SPRINKLER_HEADS[0]): HeadPlacement[] {
   return [{
     id: nextHeadId(),
-    x: zone.centerX,
-    y: zone.centerY,
+    x: zone.center.x,
+    y: zone.center.y,
     type: 'drip',
     model: headSpec.model,
     manufacturer: headSpec.manufacturer,
     arc: 0,
+    rotation: 0,
     radiusFt: 0,
     gpm: (zone.areaFt2 / 144) * 0.9,
     psi: 30,
     nozzle: headSpec.nozzle,
     zoneId: '',
+    sourceAreaId: zone.id,
   }];
 }
 
-function determineArc(pt: { x: number; y: number }, bb: { minX: number; minY: number; maxX: number; maxY: number }): number {
-  const edgeThreshold = 2;
-  const atLeft = Math.abs(pt.x - bb.minX) < edgeThreshold;
-  const atRight = Math.abs(pt.x - bb.maxX) < edgeThreshold;
-  const atTop = Math.abs(pt.y - bb.minY) < edgeThreshold;
-  const atBottom = Math.abs(pt.y - bb.maxY) < edgeThreshold;
-
-  const edgeCount = [atLeft, atRight, atTop, atBottom].filter(Boolean).length;
-  if (edgeCount >= 2) return 90;
-  if (edgeCount === 1) return 180;
-  return 360;
-}
-
 function adjustGPMForArc(fullCircleGPM: number, arc: number): number {
   return fullCircleGPM * (arc / 360);
 }
@@ -99,21 +363,23 @@ export function placeAllHeads(
 ): HeadPlacement[] {
   headCounter = 0;
   const isAthletic = projectInput.applicationType === 'athletic-field';
+  const frame = siteFrame(siteAnalysis);
+  const pressureAt = createPressureEstimator(siteAnalysis, projectInput);
   const allHeads: HeadPlacement[] = [];
 
   for (const zone of siteAnalysis.turfZones) {
-    allHeads.push(...placeHeadsInZone(zone, isAthletic));
+    allHeads.push(...placeHeadsInZone(zoneToFeet(zone, frame), isAthletic, pressureAt));
   }
   for (const zone of siteAnalysis.bedZones) {
-    allHeads.push(...placeHeadsInZone(zone, false));
+    allHeads.push(...placeHeadsInZone(zoneToFeet(zone, frame), false, pressureAt));
   }
   for (const zone of siteAnalysis.narrowStrips) {
-    allHeads.push(...placeHeadsInZone(zone, false));
+    allHeads.push(...placeHeadsInZone(zoneToFeet(zone, frame), false, pressureAt));
   }
 
   if (isAthletic) {
-    const propWidth = siteAnalysis.propertyWidthFt;
-    const propLength = siteAnalysis.propertyLengthFt;
+    const propWidth = frame.widthFt;
+    const propLength = frame.lengthFt;
     const qcPositions = [
       { x: propWidth / 2, y: propLength / 2 },
       { x: propWidth / 2, y: propLength * 0.25 },
@@ -129,6 +395,7 @@ export function placeAllHeads(
         model: qc.model,
         manufacturer: qc.manufacturer,
         arc: 0,
+        rotation: 0,
         radiusFt: 0,
         gpm: 0,
         psi: 0,
@@ -0,0 +1,234 @@
+import { HeadPlacement, PipeSegment, Zone, ProjectInput, HydraulicReport, ZoneHydraulics, SegmentHydraulics } from '../types';
+import { RoutingResult } from './pipeRouting';
+import { DESIGN_RULES, getLateralSizeIn } from '../data/designRules';
+import { SPRINKLER_HEADS, hasBuiltInCheckValve } from '../data/materials';
+import { ALL_NOZZLES } from '../data/nozzlePerformance';
+import {
+  HAZEN_WILLIAMS_COEFFICIENTS,
+  calculateFrictionLoss,
+  calculateVelocity,
+  calculateElevationPressureChange,
+  getDevicePressureLoss,
+  getFittingEquivalentLength,
+  getPipeCapacity,
+} from '../data/hydraulics';
+import { PipeTree, NetworkEdge, buildPipeTree, findNode, headDemand, downstreamFlows } from './pipeNetwork';
+import { ElevationFn } from './gradeModel';
+import { distance } from '../utils/geometry';
+
+const SWING_JOINT_SIZE_IN = 0.5;
+
+// Pressure management applied on top of the bare supply
+export interface PressureSettings {
+  boostPSI?: number;
+  regulatorPSI?: Map<string, number>; // zone id -> regulator set pressure at the valve outlet
+}
+
+/**
+ * Solves each zone as it runs on its own: static pressure less meter and
+ * backflow losses at the POC, then Hazen-Williams friction, fitting and
+ * valve losses and elevation change down the pipe tree to every head.
+ * A booster adds to the supply after the backflow preventer and a valve
+ * regulator caps the pressure leaving its zone valve.
+ * Returns the report and the heads with their solved nozzle pressure,
+ * elevation relative to the POC and any check valve they need.
+ */
+export function solveHydraulics(
+  heads: HeadPlacement[],
+  zones: Zone[],
+  routing: RoutingResult,
+  projectInput: ProjectInput,
+  elevationAt: ElevationFn = () => 0,
+  settings: PressureSettings = {}
+): { report: HydraulicReport; heads: HeadPlacement[] } {
+  const supplySize = projectInput.waterSupplySize;
+  const meterLossPSI = getDevicePressureLoss('meter', supplySize);
+  const backflowLossPSI = getDevicePressureLoss('rpz', supplySize);
+  const boostPSI = settings.boostPSI || 0;
+  const supplyPSI = projectInput.staticPressurePSI - meterLossPSI - backflowLossPSI + boostPSI;
+  const mainlines = routing.pipes.filter(p => p.zoneId === null);
+  const masterValve = routing.valves.find(v => v.type === 'master');
+  const pocFt = elevationAt(routing.poc);
+  const solved = new Map<string, Pick<HeadPlacement, 'psi' | 'elevationFt' | 'checkValve'>>();
+  const results: ZoneHydraulics[] = [];
+
+  for (const zone of zones) {
+    const zoneHeads = heads.filter(h => h.zoneId === zone.id);
+    const valve = routing.valves.find(v => v.zoneId === zone.id);
+    if (zoneHeads.length === 0 || !valve) continue;
+    const zoneGPM = zoneHeads.reduce((sum, h) => sum + h.gpm, 0);
+
+    const tree = buildPipeTree([...mainlines, ...routing.pipes.filter(p => p.zoneId === zone.id)], routing.backflow);
+    const valveNode = findNode(tree, valve);
+    const masterNode = masterValve ? findNode(tree, masterValve) : -1;
+
+    // Flow in each edge is the demand of the heads downstream of it
+    const flow = downstreamFlows(tree, headDemand(tree, zoneHeads));
+
+    // Pressure given up to the regulator when the valve outlet is above its set point
+    const setPSI = settings.regulatorPSI?.get(zone.id);
+    const regulatorLoss = (atValve: PathLosses, valveLossPSI: number): number =>
+      setPSI === undefined ? 0 : Math.max(0, pressureAfter(supplyPSI, { ...atValve, valve: atValve.valve + valveLossPSI }) - setPSI);
+
+    const losses = new Map<number, PathLosses>([[tree.root, NO_LOSSES]]);
+    const segments: SegmentHydraulics[] = [];
+    for (const node of tree.order) {
+      const edge = tree.parentEdge.get(node);
+      if (!edge) continue;
+      const q = flow.get(node) || 0;
+      const friction = edgeLoss(edge, q, tree);
+      const upstream = losses.get(edge.from)!;
+      let valveLossPSI = 0;
+      let regulatorPSI = 0;
+      if (edge.from === valveNode && edge.pipe.zoneId !== null) {
+        valveLossPSI += valveLoss(valve.size, zoneGPM);
+        regulatorPSI = regulatorLoss(upstream, valveLossPSI);
+      }
+      if (edge.from === masterNode && edge.pipe.zoneId === null) valveLossPSI += valveLoss(masterValve!.size, zoneGPM);
+      losses.set(node, {
+        mainline: upstream.mainline + (edge.pipe.zoneId === null ? friction : 0),
+        valve: upstream.valve + valveLossPSI,
+        regulator: upstream.regulator + regulatorPSI,
+        lateral: upstream.lateral + (edge.pipe.zoneId === null ? 0 : friction),
+        elevation: upstream.elevation
+          + calculateElevationPressureChange(elevationAt(tree.nodes[node]) - elevationAt(tree.nodes[edge.from])),
+      });
+      if (q > 0) {
+        segments.push({
+          pipeId: edge.pipe.id,
+          flowGPM: round(q, 1),
+          velocityFPS: round(calculateVelocity(q, insideDiameter(edge.pipe)), 2),
+          frictionLossPSI: round(friction + valveLossPSI, 2),
+        });
+      }
+    }
+
+    const atValve = valveNode >= 0 ? losses.get(valveNode)! : NO_LOSSES;
+    const zoneValveLoss = valveLoss(valve.size, zoneGPM);
+    const atOutlet = {
+      ...atValve,
+      valve: atValve.valve + zoneValveLoss,
+      regulator: atValve.regulator + regulatorLoss(atValve, zoneValveLoss),
+    };
+    const valveInletPSI = pressureAfter(supplyPSI, atValve);
+    const lateralSize = getLateralSizeIn(zone.headType);
+    let critical: { head: HeadPlacement; inlet: number; minimum: number; path: PathLosses } | null = null;
+    for (const head of zoneHeads) {
+      const node = findNode(tree, head);
+      // Heads the routing left unconnected are fed by a straight lateral from the valve
+      const atTee = node >= 0 && losses.has(node)
+        ? losses.get(node)!
+        : {
+          ...atOutlet,
+          lateral: atOutlet.lateral
+            + calculateFrictionLoss(head.gpm, distance(valve, head), getPipeCapacity(lateralSize)?.insideDiameterIn ?? lateralSize),
+          elevation: atOutlet.elevation + calculateElevationPressureChange(elevationAt(head) - elevationAt(valve)),
+        };
+      const path = {
+        ...atTee,
+        lateral: atTee.lateral
+          + calculateFrictionLoss(head.gpm, getFittingEquivalentLength('swing-joint', SWING_JOINT_SIZE_IN), SWING_JOINT_SIZE_IN),
+      };
+      const inlet = pressureAfter(supplyPSI, path);
+      const minimum = nozzleMinimumPSI(head);
+      solved.set(head.id, {
+        psi: Math.round(nozzlePressure(head, inlet)),
+        elevationFt: round(elevationAt(head) - pocFt, 1),
+        checkValve: needsCheckValve(head, elevationAt(valve) - elevationAt(head)),
+      });
+      if (!critical || inlet - minimum < critical.inlet - critical.minimum) {
+        critical = { head, inlet, minimum, path };
+      }
+    }
+
+    results.push({
+      zoneId: zone.id,
+      flowGPM: round(zoneGPM, 1),
+      valveInletPSI: round(valveInletPSI, 1),
+      valveOutletPSI: round(pressureAfter(supplyPSI, atOutlet), 1),
+      criticalHeadId: critical ? critical.head.id : null,
+      criticalHeadPSI: critical ? round(critical.inlet, 1) : 0,
+      minimumPSI: critical ? critical.minimum : 0,
+      criticalPath: {
+        meterLossPSI: round(meterLossPSI, 1),
+        backflowLossPSI: round(backflowLossPSI, 1),
+        boosterGainPSI: round(boostPSI, 1),
+        mainlineLossPSI: critical ? round(critical.path.mainline, 2) : 0,
+        valveLossPSI: critical ? round(critical.path.valve, 2) : 0,
+        regulatorLossPSI: critical ? round(critical.path.regulator, 2) : 0,
+        lateralLossPSI: critical ? round(critical.path.lateral, 2) : 0,
+        elevationPSI: critical ? round(critical.path.elevation, 2) : 0,
+      },
+      maxVelocityFPS: segments.reduce((max, s) => Math.max(max, s.velocityFPS), 0),
+      adequate: critical ? critical.inlet >= critical.minimum : true,
+      segments,
+    });
+  }
+
+  return {
+    report: {
+      staticPSI: projectInput.staticPressurePSI,
+      supplyPSI: round(supplyPSI, 1),
+      zones: results,
+    },
+    heads: heads.map(h => solved.has(h.id) ? { ...h, ...solved.get(h.id)! } : h),
+  };
+}
+
+// Accumulated from the POC along the path to a node; elevation is the gain (negative uphill)
+interface PathLosses {
+  mainline: number;
+  valve: number;
+  regulator: number;
+  lateral: number;
+  elevation: number;
+}
+
+const NO_LOSSES: PathLosses = { mainline: 0, valve: 0, regulator: 0, lateral: 0, elevation: 0 };
+
+function pressureAfter(supplyPSI: number, path: PathLosses): number {
+  return supplyPSI - path.mainline - path.valve - path.regulator - path.lateral + path.elevation;
+}
+
+// Pipe friction plus one tee: through the branch where the flow splits, through the run otherwise
+function edgeLoss(edge: NetworkEdge, gpm: number, tree: PipeTree): number {
+  if (gpm <= 0) return 0;
+  const siblings = (tree.children.get(edge.from) || []).length;
+  const fitting = getFittingEquivalentLength(siblings > 1 ? 'tee-branch' : 'tee-run', edge.pipe.diameterIn);
+  return calculateFrictionLoss(gpm, edge.lengthFt + fitting, insideDiameter(edge.pipe), roughness(edge.pipe));
+}
+
+// Loss through a globe-pattern valve body at the flow
+export function valveLoss(sizeIn: number, gpm: number): number {
+  return calculateFrictionLoss(gpm, getFittingEquivalentLength('globe-valve', sizeIn), getPipeCapacity(sizeIn)?.insideDiameterIn ?? sizeIn);
+}
+
+function insideDiameter(pipe: PipeSegment): number {
+  return getPipeCapacity(pipe.diameterIn)?.insideDiameterIn ?? pipe.diameterIn;
+}
+
+function roughness(pipe: PipeSegment): number {
+  const material = pipe.material === 'sch40-pvc' ? 'pvc-schedule-40' : 'pvc-class-200';
+  return HAZEN_WILLIAMS_COEFFICIENTS.find(m => m.material === material)?.roughnessCoefficient ?? 150;
+}
+
+function nozzleMinimumPSI(head: HeadPlacement): number {
+  return ALL_NOZZLES.find(n => n.id === head.nozzle)?.minPressurePSI ?? DESIGN_RULES.hydraulics.minOperatingPSI;
+}
+
+// PRS and pressure-compensating bodies hold the nozzle at their regulated pressure
+function nozzlePressure(head: HeadPlacement, inletPSI: number): number {
+  const regulated = SPRINKLER_HEADS.find(s => s.model === head.model)?.regulatedPSI;
+  return regulated ? Math.min(inletPSI, regulated) : inletPSI;
+}
+
+// The lateral drains out of heads well below the valve once the zone shuts off
+function needsCheckValve(head: HeadPlacement, dropFt: number): boolean {
+  if (head.type === 'quick-coupler' || hasBuiltInCheckValve(head.model)) return false;
+  return dropFt > DESIGN_RULES.hydraulics.checkValveDropFt;
+}
+
+function round(value: number, places: number): number {
+  const f = Math.pow(10, places);
+  return Math.round(value * f) / f;
+}
@@ -0,0 +1,165 @@
+import { SiteAnalysis, HeadPlacement, Zone, SiteFeetPoint, ValveBox } from '../types';
+import { DESIGN_RULES } from '../data/designRules';
+import { Point, centroid, distance, isPointInPolygon } from '../utils/geometry';
+import { siteFrame, zoneToFeet } from '../utils/coordinates';
+import { RoutingGrid, isOpenGround, nearestOpenGround } from './pathRouter';
+import { zoneOutline } from './headPlacement';
+
+// Spacing of candidate box locations along turf edges and across beds
+const CANDIDATE_STEP_FT = 5;
+// Turf-edge boxes sit this far in from the edge, behind the mow strip
+const EDGE_INSET_FT = 2;
+// A bed is worth this much extra distance over the edge of a turf area
+const TURF_EDGE_PENALTY_FT = 15;
+// Valves side by side in the box
+const VALVE_SPACING_FT = 1;
+
+let boxCounter = 0;
+
+function nextBoxId(): string {
+  return `VB-${++boxCounter}`;
+}
+
+export interface ZoneValveRequest {
+  valveId: string;
+  zone: Zone;
+  zoneHeads: HeadPlacement[];
+}
+
+export interface ManifoldPlan {
+  boxes: ValveBox[];
+  valvePositions: Map<string, SiteFeetPoint>; // zone id -> valve
+}
+
+/**
+ * Groups zone valves into manifolds, merging the closest zones first while
+ * the group fits a rectangular box and every zone stays within reach of the
+ * group's center. Each manifold goes in a bed near its zones, or failing
+ * that just inside the edge of a turf area it serves; never under paving,
+ * against a structure or in a root zone.
+ */
+export function planManifolds(siteAnalysis: SiteAnalysis, grid: RoutingGrid, requests: ZoneValveRequest[]): ManifoldPlan {
+  boxCounter = 0;
+  const { maxValvesPerJumboBox } = DESIGN_RULES.valvePlacement;
+  const clusters = groupManifolds(requests.map(r => r.zoneHeads))
+    .map(({ members, center }) => ({ members: members.map(i => requests[i]), center }));
+
+  const frame = siteFrame(siteAnalysis);
+  const beds = [...siteAnalysis.bedZones, ...siteAnalysis.narrowStrips].map(a => zoneOutline(zoneToFeet(a, frame)));
+  const turf = siteAnalysis.turfZones.map(a => ({ id: a.id, outline: zoneOutline(zoneToFeet(a, frame)) }));
+
+  const boxes: ValveBox[] = [];
+  const valvePositions = new Map<string, SiteFeetPoint>();
+  const byFirstZone = (a: typeof clusters[0], b: typeof clusters[0]) =>
+    Math.min(...a.members.map(m => m.zone.number)) - Math.min(...b.members.map(m => m.zone.number));
+  for (const cluster of [...clusters].sort(byFirstZone)) {
+    const servedTurf = turf
+      .filter(t => cluster.members.some(m => m.zoneHeads.some(h => h.sourceAreaId === t.id)))
+      .map(t => t.outline);
+    const site = boxSite(grid, cluster.center, beds, servedTurf, boxes);
+
+    const members = [...cluster.members].sort((a, b) => a.zone.number - b.zone.number);
+    const box: ValveBox = {
+      id: nextBoxId(),
+      type: members.length <= maxValvesPerJumboBox ? 'jumbo' : 'rectangular',
+      x: site.x,
+      y: site.y,
+      valveIds: members.map(m => m.valveId),
+    };
+    boxes.push(box);
+    members.forEach((m, i) => {
+      valvePositions.set(m.zone.id, { x: site.x + (i - (members.length - 1) / 2) * VALVE_SPACING_FT, y: site.y });
+    });
+  }
+
+  return { boxes, valvePositions };
+}
+
+/**
+ * Which zones share a manifold, as indexes into the zones' head sets, with
+ * the center each group's box is sited from. Depends only on where the
+ * heads are, so zones can be numbered around their manifolds before the
+ * boxes are placed.
+ */
+export function groupManifolds(zoneHeads: Point[][]): Array<{ members: number[]; center: Point }> {
+  const { maxValvesPerRectBox, maxManifoldReachFt } = DESIGN_RULES.valvePlacement;
+  const centers = zoneHeads.map(heads => centroid(heads.map(h => ({ x: h.x, y: h.y }))));
+
+  let clusters = centers.map((center, i) => ({ members: [i], center }));
+  for (;;) {
+    let best: { i: number; j: number; center: Point } | null = null;
+    let bestDist = Infinity;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        const members = [...clusters[i].members, ...clusters[j].members];
+        if (members.length > maxValvesPerRectBox) continue;
+        const d = distance(clusters[i].center, clusters[j].center);
+        if (d >= bestDist) continue;
+        const center = centroid(members.map(m => centers[m]));
+        if (members.some(m => distance(centers[m], center) > maxManifoldReachFt)) continue;
+        best = { i, j, center };
+        bestDist = d;
+      }
+    }
+    if (!best) break;
+    const merged = { members: [...clusters[best.i].members, ...clusters[best.j].members], center: best.center };
+    clusters = [...clusters.filter((_, k) => k !== best!.i && k !== best!.j), merged];
+  }
+  return clusters;
+}
+
+// Nearest open bed spot, or turf edge with a penalty, to the target; the nearest open ground when neither exists
+function boxSite(grid: RoutingGrid, target: Point, beds: Point[][], turf: Point[][], placed: ValveBox[]): Point {
+  const candidates: Array<{ p: Point; penalty: number }> = [];
+  for (const outline of beds) {
+    for (const p of gridPointsIn(outline)) candidates.push({ p, penalty: 0 });
+  }
+  for (const outline of turf) {
+    for (const p of insetEdgePoints(outline)) candidates.push({ p, penalty: TURF_EDGE_PENALTY_FT });
+  }
+
+  const clear = (p: Point) => !placed.some(b => distance(b, p) < CANDIDATE_STEP_FT);
+  let best: Point | null = null;
+  let bestScore = Infinity;
+  for (const { p, penalty } of candidates) {
+    if (!isOpenGround(grid, p) || !clear(p)) continue;
+    const score = distance(p, target) + penalty;
+    if (score < bestScore) {
+      best = p;
+      bestScore = score;
+    }
+  }
+  return best ?? nearestOpenGround(grid, target, clear) ?? nearestOpenGround(grid, target) ?? target;
+}
+
+// The bed's center, when inside it, plus a grid of points across it
+function gridPointsIn(outline: Point[]): Point[] {
+  const xs = outline.map(p => p.x), ys = outline.map(p => p.y);
+  const center = centroid(outline);
+  const points: Point[] = isPointInPolygon(center, outline) ? [center] : [];
+  for (let y = Math.min(...ys) + CANDIDATE_STEP_FT / 2; y < Math.max(...ys); y += CANDIDATE_STEP_FT) {
+    for (let x = Math.min(...xs) + CANDIDATE_STEP_FT / 2; x < Math.max(...xs); x += CANDIDATE_STEP_FT) {
+      if (isPointInPolygon({ x, y }, outline)) points.push({ x, y });
+    }
+  }
+  return points;
+}
+
+// Points along each edge, stepped in to whichever side is inside the area
+function insetEdgePoints(outline: Point[]): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i < outline.length; i++) {
+    const a = outline[i], b = outline[(i + 1) % outline.length];
+    const len = distance(a, b);
+    if (len === 0) continue;
+    const nx = -(b.y - a.y) / len, ny = (b.x - a.x) / len;
+    for (let s = CANDIDATE_STEP_FT / 2; s < len; s += CANDIDATE_STEP_FT) {
+      const on = { x: a.x + (b.x - a.x) * s / len, y: a.y + (b.y - a.y) * s / len };
+      const inset = [1, -1]
+        .map(sign => ({ x: on.x + sign * nx * EDGE_INSET_FT, y: on.y + sign * ny * EDGE_INSET_FT }))
+        .find(p => isPointInPolygon(p, outline));
+      if (inset) points.push(inset);
+    }
+  }
+  return points;
+}
@@ -1,7 +1,8 @@
 import { HeadPlacement, PipeSegment, Zone, MaterialScheduleItem, IrrigationDesign } from '../types';
-import { SPRINKLER_HEADS, VALVES, CONTROLLERS, SENSORS, SWING_JOINT, VALVE_BOXES, WIRE, DRIP_KIT } from '../data/materials';
+import { SPRINKLER_HEADS, VALVES, CONTROLLERS, SENSORS, FLOW_SENSORS, SWING_JOINT, CHECK_VALVE, VALVE_BOXES, WIRE, SPLICE_BOX, WIRE_CONNECTOR, TWO_WIRE_CABLES, DECODERS, SURGE_ARRESTOR, GROUND_ROD, DRIP_KIT, BOOSTER_PUMPS, PUMP_START_RELAY } from '../data/materials';
 import { needsMasterValve } from '../data/designRules';
-import { distance } from '../utils/geometry';
+import { distance, distanceToSegment } from '../utils/geometry';
+import { buildPipeTree, countFittings, FittingCount } from './pipeNetwork';
 
 export function calculateMaterials(design: Omit<IrrigationDesign, 'materialSchedule'>): MaterialScheduleItem[] {
   const items: MaterialScheduleItem[] = [];
@@ -44,11 +45,44 @@ export function calculateMaterials(design: Omit<IrrigationDesign, 'materialSched
     items.push({ item: spec.name, manufacturer: spec.manufacturer, model: spec.model, quantity: 1, unit: 'EA' });
   }
 
+  const regulatorCount = design.pressure?.regulators.length || 0;
+  if (regulatorCount > 0) {
+    const spec = VALVES.find(v => v.id === 'prs-dial')!;
+    items.push({ item: spec.name, manufacturer: spec.manufacturer, model: spec.model, quantity: regulatorCount, unit: 'EA' });
+  }
+
   const rpzSpec = VALVES.find(v => v.id === '009m2-qt')!;
   items.push({ item: rpzSpec.name, manufacturer: rpzSpec.manufacturer, model: rpzSpec.model, quantity: 1, unit: 'EA' });
 
-  const ctrlSpec = CONTROLLERS[0];
-  items.push({ item: ctrlSpec.name, manufacturer: ctrlSpec.manufacturer, model: ctrlSpec.model, quantity: 1, unit: 'EA' });
+  const booster = design.pressure?.booster;
+  if (booster) {
+    const spec = BOOSTER_PUMPS.find(p => p.model === booster.model)!;
+    items.push({ item: spec.name, manufacturer: spec.manufacturer, model: spec.model, quantity: 1, unit: 'EA' });
+    items.push({ item: PUMP_START_RELAY.name, manufacturer: PUMP_START_RELAY.manufacturer, model: PUMP_START_RELAY.model, quantity: 1, unit: 'EA' });
+  }
+
+  const ctrlSpec = CONTROLLERS.find(c => c.model === design.controller.model) ?? CONTROLLERS[0];
+  const controllers = design.controllers || [];
+  items.push({ item: ctrlSpec.name, manufacturer: ctrlSpec.manufacturer, model: ctrlSpec.model, quantity: Math.max(1, controllers.length), unit: 'EA' });
+  for (const module of ctrlSpec.expansionModules) {
+    const count = controllers.reduce((sum, c) => sum + c.modules.filter(m => m === module.model).length, 0);
+    if (count > 0) {
+      items.push({ item: `Controller Station Module - ${module.stations} Station`, manufacturer: ctrlSpec.manufacturer, model: module.model, quantity: count, unit: 'EA' });
+    }
+  }
+
+  const flowSensor = design.flowMonitoring?.sensor;
+  if (flowSensor) {
+    const spec = FLOW_SENSORS.find(s => s.model === flowSensor.model)!;
+    items.push({ item: spec.name, manufacturer: spec.manufacturer, model: spec.model, quantity: 1, unit: 'EA' });
+    // A bushing each side where the sensor body differs from the mainline it sits in
+    const mainline = design.pipes.find(p => p.type === 'mainline'
+      && distanceToSegment(flowSensor, { x: p.startX, y: p.startY }, { x: p.endX, y: p.endY }) <= 0.5);
+    if (mainline && mainline.diameterIn !== spec.sizeIn) {
+      const [large, small] = [mainline.diameterIn, spec.sizeIn].sort((a, b) => b - a);
+      items.push({ item: `Sch. 40 PVC Reducer Bushing - ${large}" x ${small}"`, manufacturer: '', model: '', quantity: 2, unit: 'EA' });
+    }
+  }
 
   const rainSpec = SENSORS.find(s => s.id === 'rain-clik')!;
   items.push({ item: rainSpec.name, manufacturer: rainSpec.manufacturer, model: rainSpec.model, quantity: 1, unit: 'EA' });
@@ -60,7 +94,11 @@ export function calculateMaterials(design: Omit<IrrigationDesign, 'materialSched
     pipeLengths[key] = (pipeLengths[key] || 0) + len;
   }
 
-  for (const [key, length] of Object.entries(pipeLengths)) {
+  const pipeKeys = Object.keys(pipeLengths).sort((a, b) =>
+    a.split('-')[1].localeCompare(b.split('-')[1]) || parseFloat(a) - parseFloat(b)
+  );
+  for (const key of pipeKeys) {
+    const length = pipeLengths[key];
     const [sizeStr, material] = key.split('-');
     const size = parseFloat(sizeStr);
     const matName = material === 'sch40' ? 'Sch. 40 PVC' : 'Class 200 PVC';
@@ -73,6 +111,39 @@ export function calculateMaterials(design: Omit<IrrigationDesign, 'materialSched
     });
   }
 
+  // Lateral fittings from each zone's tree, rooted at its valve
+  const fittings = new Map<number, FittingCount>();
+  for (const zone of design.zones) {
+    const valve = design.valves.find(v => v.zoneId === zone.id);
+    const laterals = design.pipes.filter(p => p.zoneId === zone.id);
+    if (!valve || laterals.length === 0) continue;
+    const tree = buildPipeTree(laterals, valve);
+    const zoneCounts = countFittings(tree, design.heads.filter(h => h.zoneId === zone.id));
+    for (const [size, count] of zoneCounts) {
+      const total = fittings.get(size) || { tees: 0, elbows: 0 };
+      fittings.set(size, { tees: total.tees + count.tees, elbows: total.elbows + count.elbows });
+    }
+  }
+  for (const size of [...fittings.keys()].sort((a, b) => a - b)) {
+    const { tees, elbows } = fittings.get(size)!;
+    if (tees > 0) items.push({ item: `Sch. 40 PVC Tee - ${size}"`, manufacturer: '', model: '', quantity: tees, unit: 'EA' });
+    if (elbows > 0) items.push({ item: `Sch. 40 PVC 90° Elbow - ${size}"`, manufacturer: '', model: '', quantity: elbows, unit: 'EA' });
+  }
+
+  const sleeveLengths: Record<number, number> = {};
+  for (const sleeve of design.sleeves || []) {
+    sleeveLengths[sleeve.sizeIn] = (sleeveLengths[sleeve.sizeIn] || 0) + sleeve.lengthFt;
+  }
+  for (const size of Object.keys(sleeveLengths).map(Number).sort((a, b) => a - b)) {
+    items.push({
+      item: `Sch. 40 PVC Sleeve - ${size}"`,
+      manufacturer: '',
+      model: '',
+      quantity: sleeveLengths[size],
+      unit: 'LF',
+    });
+  }
+
   const sprinklerHeadCount = design.heads.filter(h => h.type !== 'quick-coupler' && h.type !== 'drip').length;
   items.push({
     item: SWING_JOINT.name,
@@ -82,21 +153,72 @@ export function calculateMaterials(design: Omit<IrrigationDesign, 'materialSched
     unit: 'EA',
   });
 
-  const valveBoxCount = Math.ceil(zoneValveCount / 4);
-  items.push({
-    item: VALVE_BOXES.jumbo.name,
-    manufacturer: VALVE_BOXES.jumbo.manufacturer,
-    model: VALVE_BOXES.jumbo.model,
-    quantity: valveBoxCount,
-    unit: 'EA',
-  });
+  const checkValveCount = design.heads.filter(h => h.checkValve).length;
+  if (checkValveCount > 0) {
+    items.push({
+      item: CHECK_VALVE.name,
+      manufacturer: CHECK_VALVE.manufacturer,
+      model: CHECK_VALVE.model,
+      quantity: checkValveCount,
+      unit: 'EA',
+    });
+  }
+
+  for (const type of ['jumbo', 'rectangular'] as const) {
+    const count = (design.valveBoxes || []).filter(b => b.type === type).length;
+    if (count === 0) continue;
+    items.push({
+      item: VALVE_BOXES[type].name,
+      manufacturer: VALVE_BOXES[type].manufacturer,
+      model: VALVE_BOXES[type].model,
+      quantity: count,
+      unit: 'EA',
+    });
+  }
 
-  const totalWireRun = design.pipes.filter(p => p.type === 'mainline').reduce((sum, p) => {
-    return sum + distance({ x: p.startX, y: p.startY }, { x: p.endX, y: p.endY });
-  }, 0);
+  const wiring = design.wiring;
+  if (wiring) {
+    for (const use of ['common', 'zone', 'spare'] as const) {
+      for (const total of wiring.totals.filter(t => t.use === use).sort((a, b) => b.gaugeAWG - a.gaugeAWG)) {
+        items.push({ item: WIRE[use].name, manufacturer: '', model: `${total.gaugeAWG} AWG ${WIRE[use].insulation}`, quantity: total.lengthFt, unit: 'LF' });
+      }
+    }
+    if (wiring.spliceBoxes.length > 0) {
+      items.push({ item: SPLICE_BOX.name, manufacturer: SPLICE_BOX.manufacturer, model: SPLICE_BOX.model, quantity: wiring.spliceBoxes.length, unit: 'EA' });
+    }
+    // Zone and common at every solenoid, plus the common splice in each splice box
+    items.push({
+      item: WIRE_CONNECTOR.name,
+      manufacturer: WIRE_CONNECTOR.manufacturer,
+      model: WIRE_CONNECTOR.model,
+      quantity: wiring.runs.length * 2 + wiring.spliceBoxes.length,
+      unit: 'EA',
+    });
+  }
 
-  items.push({ item: WIRE.common.name, manufacturer: '', model: WIRE.common.spec, quantity: Math.ceil(totalWireRun), unit: 'LF' });
-  items.push({ item: WIRE.zone.name, manufacturer: '', model: WIRE.zone.spec, quantity: Math.ceil(totalWireRun * design.totalZones), unit: 'LF' });
+  const twoWire = design.twoWire;
+  if (twoWire) {
+    const cableSpec = TWO_WIRE_CABLES.find(c => c.model === twoWire.cable.model)!;
+    items.push({ item: cableSpec.name, manufacturer: twoWire.cable.manufacturer, model: twoWire.cable.model, quantity: twoWire.cable.lengthFt, unit: 'LF' });
+    for (const spec of DECODERS) {
+      const count = twoWire.decoders.filter(d => d.model === spec.model).length;
+      if (count > 0) items.push({ item: spec.name, manufacturer: spec.manufacturer, model: spec.model, quantity: count, unit: 'EA' });
+    }
+    items.push({ item: SURGE_ARRESTOR.name, manufacturer: SURGE_ARRESTOR.manufacturer, model: SURGE_ARRESTOR.model, quantity: twoWire.surgeArrestors.length, unit: 'EA' });
+    items.push({ item: GROUND_ROD.name, manufacturer: GROUND_ROD.manufacturer, model: GROUND_ROD.model, quantity: twoWire.groundRods, unit: 'EA' });
+    if (twoWire.spliceBoxes.length > 0) {
+      items.push({ item: SPLICE_BOX.name, manufacturer: SPLICE_BOX.manufacturer, model: SPLICE_BOX.model, quantity: twoWire.spliceBoxes.length, unit: 'EA' });
+    }
+    // Both path conductors at every decoder, arrestor and splice box, both solenoid leads at every output
+    const outputs = twoWire.decoders.reduce((sum, d) => sum + d.outputs.length, 0);
+    items.push({
+      item: WIRE_CONNECTOR.name,
+      manufacturer: WIRE_CONNECTOR.manufacturer,
+      model: WIRE_CONNECTOR.model,
+      quantity: (twoWire.decoders.length + twoWire.surgeArrestors.length + twoWire.spliceBoxes.length + outputs) * 2,
+      unit: 'EA',
+    });
+  }
 
   const dripZones = design.zones.filter(z => z.headType === 'drip');
   if (dripZones.length > 0) {
@@ -0,0 +1,289 @@
+import { SiteAnalysis } from '../types';
+import { Point, distance, isPointInPolygon, distanceToPolygonEdge, closestPointOnSegment } from '../utils/geometry';
+import { siteFrame, normalizedToFeet, SiteFrame } from '../utils/coordinates';
+
+// Grid resolution: as fine as MIN_CELL_FT allows within the cell budget
+const MAX_GRID_CELLS = 40000;
+const MIN_CELL_FT = 2;
+
+// Costs are in equivalent feet of trench in open ground
+const CLEARANCE_FT = 3;            // default standoff from foundations and tree trunks
+const HARDSCAPE_COST = 4;          // per foot run under paving
+const HARDSCAPE_CROSSING_FT = 30;  // sleeve and bore for each crossing
+const ROOT_ZONE_COST = 3;          // per foot inside a canopy drip line
+
+export type Segment = [Point, Point];
+
+export interface RoutingGrid {
+  cellFt: number;
+  cols: number;
+  rows: number;
+  cost: Float64Array;   // per-foot multiplier; Infinity is impassable
+  paved: Uint8Array;    // 1 under hardscape
+}
+
+/**
+ * Rasterizes the site into a cost grid in feet: structures and tree trunks
+ * (plus the clearance) are impassable, paving and root zones cost extra.
+ */
+export function buildRoutingGrid(siteAnalysis: SiteAnalysis, clearanceFt = CLEARANCE_FT): RoutingGrid {
+  const frame = siteFrame(siteAnalysis);
+  const cellFt = Math.max(MIN_CELL_FT, Math.ceil(Math.sqrt(frame.widthFt * frame.lengthFt / MAX_GRID_CELLS)));
+  const cols = Math.ceil(frame.widthFt / cellFt);
+  const rows = Math.ceil(frame.lengthFt / cellFt);
+  const cost = new Float64Array(cols * rows).fill(1);
+  const paved = new Uint8Array(cols * rows);
+
+  const structures = siteAnalysis.structures.map(s => structureOutline(s, frame));
+  const hardscape = siteAnalysis.hardscapeBoundaries
+    .filter(h => h.boundaryPoints.length >= 3)
+    .map(h => h.boundaryPoints.map(p => normalizedToFeet(p, frame)));
+  const trees = siteAnalysis.treeCanopyAreas.map(t => ({ center: normalizedToFeet(t.position, frame), radiusFt: t.radiusFt }));
+
+  for (let i = 0; i < cols * rows; i++) {
+    const c = cellCenter({ cellFt, cols, rows, cost, paved }, i);
+    if (structures.some(poly => isPointInPolygon(c, poly) || distanceToPolygonEdge(c, poly) < clearanceFt)
+      || trees.some(t => distance(c, t.center) < clearanceFt)) {
+      cost[i] = Infinity;
+      continue;
+    }
+    if (hardscape.some(poly => isPointInPolygon(c, poly))) {
+      paved[i] = 1;
+      cost[i] = HARDSCAPE_COST;
+    }
+    if (trees.some(t => distance(c, t.center) < t.radiusFt)) cost[i] = Math.max(cost[i], ROOT_ZONE_COST);
+  }
+
+  return { cellFt, cols, rows, cost, paved };
+}
+
+/**
+ * Least-cost path from a point to the nearest point on an existing network
+ * of segments (A* over the 8-connected grid, then straightened wherever a
+ * direct run costs no more). Falls back to a straight run when the point is
+ * walled in. The path starts at `from` and ends on the network.
+ */
+export function routeToNetwork(grid: RoutingGrid, from: Point, network: Segment[]): Point[] {
+  const goal = new Set<number>();
+  for (const [a, b] of network) {
+    for (const i of cellsAlong(grid, a, b)) goal.add(i);
+  }
+  const heuristic = (p: Point) => Math.min(...network.map(([a, b]) => distance(p, closestPointOnSegment(p, a, b))));
+  const attachTo = (p: Point) => nearestOnNetwork(p, network);
+
+  const start = cellIndex(grid, from);
+  const cells = searchCells(grid, start, goal, heuristic);
+  if (!cells) return [from, attachTo(from)];
+
+  const end = cellCenter(grid, cells[cells.length - 1]);
+  const path = [from, ...cells.slice(1, -1).map(i => cellCenter(grid, i)), attachTo(end)];
+  return straighten(grid, path);
+}
+
+export function nearestOnNetwork(p: Point, network: Segment[]): Point {
+  let best = network[0][0];
+  let bestDist = Infinity;
+  for (const [a, b] of network) {
+    const q = closestPointOnSegment(p, a, b);
+    const d = distance(p, q);
+    if (d < bestDist) {
+      bestDist = d;
+      best = q;
+    }
+  }
+  return best;
+}
+
+// Open ground: clear of structures, trunks, paving and root zones
+export function isOpenGround(grid: RoutingGrid, p: Point): boolean {
+  return grid.cost[cellIndex(grid, p)] === 1;
+}
+
+// Center of the open-ground cell nearest the point that the caller accepts; null when none is left
+export function nearestOpenGround(grid: RoutingGrid, p: Point, accept: (c: Point) => boolean = () => true): Point | null {
+  let best: Point | null = null;
+  let bestDist = Infinity;
+  for (let i = 0; i < grid.cols * grid.rows; i++) {
+    if (grid.cost[i] !== 1) continue;
+    const c = cellCenter(grid, i);
+    const d = distance(c, p);
+    if (d < bestDist && accept(c)) {
+      best = c;
+      bestDist = d;
+    }
+  }
+  return best;
+}
+
+// Cost of a straight run, sampled at half-cell steps; blocked end cells count as open ground
+export function runCost(grid: RoutingGrid, a: Point, b: Point): number {
+  const ends = new Set([cellIndex(grid, a), cellIndex(grid, b)]);
+  const len = distance(a, b);
+  const steps = Math.max(1, Math.ceil(len / (grid.cellFt / 2)));
+  const stepFt = len / steps;
+  let total = 0;
+  let prevPaved = grid.paved[cellIndex(grid, a)];
+  for (let s = 1; s <= steps; s++) {
+    const i = cellIndex(grid, { x: a.x + (b.x - a.x) * s / steps, y: a.y + (b.y - a.y) * s / steps });
+    const c = grid.cost[i] === Infinity && ends.has(i) ? 1 : grid.cost[i];
+    if (c === Infinity) return Infinity;
+    total += stepFt * c;
+    if (grid.paved[i] && !prevPaved) total += HARDSCAPE_CROSSING_FT;
+    prevPaved = grid.paved[i];
+  }
+  return total;
+}
+
+// ============================================================================
+// GRID SEARCH
+// ============================================================================
+
+function searchCells(grid: RoutingGrid, start: number, goal: Set<number>, heuristic: (p: Point) => number): number[] | null {
+  const n = grid.cols * grid.rows;
+  const g = new Float64Array(n).fill(Infinity);
+  const parent = new Int32Array(n).fill(-1);
+  const closed = new Uint8Array(n);
+  const open = new MinHeap();
+  g[start] = 0;
+  open.push(heuristic(cellCenter(grid, start)), start);
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (closed[current]) continue;
+    closed[current] = 1;
+    if (goal.has(current)) {
+      const cells = [current];
+      while (parent[cells[0]] >= 0) cells.unshift(parent[cells[0]]);
+      return cells;
+    }
+
+    const cx = current % grid.cols;
+    const cy = Math.floor(current / grid.cols);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        const nx = cx + dx, ny = cy + dy;
+        if (nx < 0 || ny < 0 || nx >= grid.cols || ny >= grid.rows) continue;
+        const next = ny * grid.cols + nx;
+        if (closed[next]) continue;
+        const nextCost = goal.has(next) ? 1 : grid.cost[next];
+        if (nextCost === Infinity) continue;
+        // No cutting diagonally past an impassable corner
+        if (dx !== 0 && dy !== 0
+          && (grid.cost[cy * grid.cols + nx] === Infinity || grid.cost[ny * grid.cols + cx] === Infinity)) continue;
+
+        const currentCost = current === start ? 1 : grid.cost[current];
+        const stepFt = grid.cellFt * (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1);
+        const crossing = grid.paved[next] && !grid.paved[current] ? HARDSCAPE_CROSSING_FT : 0;
+        const tentative = g[current] + stepFt * (currentCost + nextCost) / 2 + crossing;
+        if (tentative < g[next]) {
+          g[next] = tentative;
+          parent[next] = current;
+          open.push(tentative + heuristic(cellCenter(grid, next)), next);
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// String-pull the cell path: skip ahead wherever the direct run costs no more
+function straighten(grid: RoutingGrid, path: Point[]): Point[] {
+  const along = [0];
+  for (let k = 1; k < path.length; k++) along.push(along[k - 1] + runCost(grid, path[k - 1], path[k]));
+
+  const result = [path[0]];
+  let i = 0;
+  while (i < path.length - 1) {
+    let j = path.length - 1;
+    while (j > i + 1 && runCost(grid, path[i], path[j]) > along[j] - along[i] + 1e-6) j--;
+    result.push(path[j]);
+    i = j;
+  }
+  return result;
+}
+
+class MinHeap {
+  private keys: number[] = [];
+  private values: number[] = [];
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  push(key: number, value: number): void {
+    this.keys.push(key);
+    this.values.push(value);
+    let i = this.keys.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (this.keys[p] <= this.keys[i]) break;
+      this.swap(i, p);
+      i = p;
+    }
+  }
+
+  pop(): number {
+    const top = this.values[0];
+    const lastKey = this.keys.pop()!;
+    const lastValue = this.values.pop()!;
+    if (this.keys.length > 0) {
+      this.keys[0] = lastKey;
+      this.values[0] = lastValue;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1, r = l + 1;
+        let m = i;
+        if (l < this.keys.length && this.keys[l] < this.keys[m]) m = l;
+        if (r < this.keys.length && this.keys[r] < this.keys[m]) m = r;
+        if (m === i) break;
+        this.swap(i, m);
+        i = m;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+    [this.values[a], this.values[b]] = [this.values[b], this.values[a]];
+  }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+function cellIndex(grid: RoutingGrid, p: Point): number {
+  const col = Math.min(grid.cols - 1, Math.max(0, Math.floor(p.x / grid.cellFt)));
+  const row = Math.min(grid.rows - 1, Math.max(0, Math.floor(p.y / grid.cellFt)));
+  return row * grid.cols + col;
+}
+
+function cellCenter(grid: RoutingGrid, i: number): Point {
+  return { x: (i % grid.cols + 0.5) * grid.cellFt, y: (Math.floor(i / grid.cols) + 0.5) * grid.cellFt };
+}
+
+function cellsAlong(grid: RoutingGrid, a: Point, b: Point): number[] {
+  const steps = Math.max(1, Math.ceil(distance(a, b) / (grid.cellFt / 2)));
+  const cells: number[] = [];
+  for (let s = 0; s <= steps; s++) {
+    cells.push(cellIndex(grid, { x: a.x + (b.x - a.x) * s / steps, y: a.y + (b.y - a.y) * s / steps }));
+  }
+  return cells;
+}
+
+// Traced outline, or the footprint rectangle centered on the position
+function structureOutline(structure: SiteAnalysis['structures'][0], frame: SiteFrame): Point[] {
+  if (structure.boundaryPoints && structure.boundaryPoints.length >= 3) {
+    return structure.boundaryPoints.map(p => normalizedToFeet(p, frame));
+  }
+  const c = normalizedToFeet(structure.position, frame);
+  const hw = structure.widthFt / 2, hl = structure.lengthFt / 2;
+  return [
+    { x: c.x - hw, y: c.y - hl },
+    { x: c.x + hw, y: c.y - hl },
+    { x: c.x + hw, y: c.y + hl },
+    { x: c.x - hw, y: c.y + hl },
+  ];
+}
@@ -0,0 +1,131 @@
+import { PipeSegment } from '../types';
+import { Point, distance } from '../utils/geometry';
+
+// Pipe ends closer than this are the same junction
+const NODE_TOLERANCE_FT = 0.5;
+
+export interface NetworkEdge {
+  pipe: PipeSegment;
+  from: number; // upstream node
+  to: number;
+  lengthFt: number;
+}
+
+export interface PipeTree {
+  nodes: Point[];
+  root: number;
+  parentEdge: Map<number, NetworkEdge>;
+  children: Map<number, NetworkEdge[]>;
+  order: number[]; // reachable nodes, upstream first
+}
+
+/**
+ * Orients the pipes as a tree flowing away from the node nearest rootPoint.
+ * Pipes are treated as undirected; a pipe that would close a loop is dropped
+ * and pipes not connected to the root are left out of the tree.
+ */
+export function buildPipeTree(pipes: PipeSegment[], rootPoint: Point): PipeTree {
+  const nodes: Point[] = [];
+  const nodeAt = (pt: Point): number => {
+    const idx = nodes.findIndex(n => distance(n, pt) <= NODE_TOLERANCE_FT);
+    if (idx >= 0) return idx;
+    nodes.push({ x: pt.x, y: pt.y });
+    return nodes.length - 1;
+  };
+
+  const adjacency = new Map<number, Array<{ pipe: PipeSegment; other: number }>>();
+  const link = (a: number, b: number, pipe: PipeSegment) => {
+    if (!adjacency.has(a)) adjacency.set(a, []);
+    adjacency.get(a)!.push({ pipe, other: b });
+  };
+  for (const pipe of pipes) {
+    const a = nodeAt({ x: pipe.startX, y: pipe.startY });
+    const b = nodeAt({ x: pipe.endX, y: pipe.endY });
+    if (a === b) continue;
+    link(a, b, pipe);
+    link(b, a, pipe);
+  }
+
+  const root = nodes.length > 0
+    ? nodes.reduce((best, n, i) => distance(n, rootPoint) < distance(nodes[best], rootPoint) ? i : best, 0)
+    : nodeAt(rootPoint);
+
+  const parentEdge = new Map<number, NetworkEdge>();
+  const children = new Map<number, NetworkEdge[]>();
+  const order = [root];
+  const visited = new Set([root]);
+  for (let i = 0; i < order.length; i++) {
+    const from = order[i];
+    for (const { pipe, other } of adjacency.get(from) || []) {
+      if (visited.has(other)) continue;
+      visited.add(other);
+      const edge = { pipe, from, to: other, lengthFt: distance(nodes[from], nodes[other]) };
+      parentEdge.set(other, edge);
+      if (!children.has(from)) children.set(from, []);
+      children.get(from)!.push(edge);
+      order.push(other);
+    }
+  }
+
+  return { nodes, root, parentEdge, children, order };
+}
+
+export function findNode(tree: PipeTree, pt: Point): number {
+  return tree.order.find(i => distance(tree.nodes[i], pt) <= NODE_TOLERANCE_FT) ?? -1;
+}
+
+// Head flow drawn at each node of the tree
+export function headDemand(tree: PipeTree, heads: Array<Point & { gpm: number }>): Map<number, number> {
+  const demand = new Map<number, number>();
+  for (const head of heads) {
+    const node = findNode(tree, head);
+    if (node >= 0) demand.set(node, (demand.get(node) || 0) + head.gpm);
+  }
+  return demand;
+}
+
+// Flow arriving at each node: its own demand plus everything downstream
+export function downstreamFlows(tree: PipeTree, demand: Map<number, number>): Map<number, number> {
+  const flow = new Map<number, number>();
+  for (let i = tree.order.length - 1; i >= 0; i--) {
+    const node = tree.order[i];
+    const downstream = (tree.children.get(node) || []).reduce((sum, e) => sum + (flow.get(e.to) || 0), 0);
+    flow.set(node, (demand.get(node) || 0) + downstream);
+  }
+  return flow;
+}
+
+export interface FittingCount {
+  tees: number;
+  elbows: number;
+}
+
+/**
+ * Fittings the tree's joints call for, keyed by the size of the pipe feeding
+ * each joint. A head tapped from a run takes a tee and a dead-end head an
+ * ell; every branch beyond the run through a joint adds a tee. At the root
+ * the first run leaves the valve outlet directly.
+ */
+export function countFittings(tree: PipeTree, headPoints: Point[]): Map<number, FittingCount> {
+  const counts = new Map<number, FittingCount>();
+  const add = (sizeIn: number, tees: number, elbows: number) => {
+    const count = counts.get(sizeIn) || { tees: 0, elbows: 0 };
+    counts.set(sizeIn, { tees: count.tees + tees, elbows: count.elbows + elbows });
+  };
+
+  for (const node of tree.order) {
+    const branches = (tree.children.get(node) || []).length;
+    const feed = tree.parentEdge.get(node);
+    if (!feed) {
+      if (branches > 1) add(Math.max(...tree.children.get(node)!.map(e => e.pipe.diameterIn)), branches - 1, 0);
+      continue;
+    }
+    const isHead = headPoints.some(h => distance(h, tree.nodes[node]) <= NODE_TOLERANCE_FT);
+    if (branches === 0) {
+      if (isHead) add(feed.pipe.diameterIn, 0, 1);
+    } else {
+      add(feed.pipe.diameterIn, isHead ? branches : branches - 1, 0);
+    }
+  }
+  return counts;
+}
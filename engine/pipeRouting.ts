@@ -1,7 +1,18 @@
-import { SiteAnalysis, HeadPlacement, PipeSegment, Zone, ProjectInput } from '../types';
-import { getMainlineSizeIn, needsMasterValve } from '../data/designRules';
-import { VALVES } from '../data/materials';
-import { centroid, distance } from '../utils/geometry';
+import { SiteAnalysis, HeadPlacement, PipeSegment, Zone, ProjectInput, NormalizedPoint, SiteFeetPoint, SupplyCapacity, ValveBox, FlowSensorPlacement } from '../types';
+import { DESIGN_RULES, getMainlineSizeIn, getLateralSizeIn, needsMasterValve } from '../data/designRules';
+import { VALVES, selectController, selectFlowSensor } from '../data/materials';
+import { Point, distance, distanceToSegment, isPointInPolygon, distanceToPolygonEdge } from '../utils/geometry';
+import { SiteFrame, normalizedToFeet, siteFrame, zoneToFeet } from '../utils/coordinates';
+import { RoutingGrid, Segment, buildRoutingGrid, routeToNetwork, nearestOnNetwork, runCost } from './pathRouter';
+import { zoneOutline } from './headPlacement';
+import { planManifolds } from './manifoldPlanning';
+
+// Pipe ends this close share a fitting (matches the pipe network's node tolerance)
+const TEE_TOLERANCE_FT = 0.5;
+// Lateral links: per-foot premium outside the zone's areas
+const OUTSIDE_ZONE_COST = 3;
+// Heads sit on area edges, so runs this close to an outline count as inside
+const ZONE_EDGE_TOLERANCE_FT = 1;
 
 let pipeCounter = 0;
 
@@ -19,7 +30,10 @@ export interface RoutingResult {
     size: number;
     type: 'zone' | 'master';
     zoneId: string | null;
+    boxId?: string;
   }>;
+  valveBoxes: ValveBox[];
+  flowSensor: FlowSensorPlacement | null;
   poc: { x: number; y: number };
   backflow: { x: number; y: number; model: string; size: number };
   controller: { x: number; y: number; model: string };
@@ -30,24 +44,29 @@ export function routePipes(
   siteAnalysis: SiteAnalysis,
   heads: HeadPlacement[],
   zones: Zone[],
-  projectInput: ProjectInput
+  projectInput: ProjectInput,
+  supply: SupplyCapacity
 ): RoutingResult {
   pipeCounter = 0;
   const pipes: PipeSegment[] = [];
   const valveResults: RoutingResult['valves'] = [];
 
-  const pocPos = siteAnalysis.waterSourceLocation || { x: 5, y: siteAnalysis.propertyLengthFt / 2 };
+  const frame = siteFrame(siteAnalysis);
+  const markup = projectInput.imageMarkup;
+  const pocPos = locatePoc(siteAnalysis, projectInput);
   const totalGPM = zones.reduce((sum, z) => sum + z.totalGPM, 0);
-  const mainlineSize = getMainlineSizeIn(totalGPM);
+  const mainlineSize = getMainlineSizeIn(supply.availableGPM);
 
   const rpz = VALVES.find(v => v.id === '009m2-qt')!;
   const backflowPos = { x: pocPos.x + 5, y: pocPos.y };
 
-  const controllerPos = siteAnalysis.controllerLocation || {
-    x: siteAnalysis.nearestBuildingLocation.x,
-    y: siteAnalysis.nearestBuildingLocation.y + 5,
+  const buildingPos = normalizedToFeet(siteAnalysis.nearestBuildingLocation, frame);
+  const controllerPos = resolveLocation(frame, markup?.controllerLocation, siteAnalysis.controllerLocation) || {
+    x: buildingPos.x,
+    y: buildingPos.y + 5,
   };
 
+  let trunkStart: SiteFeetPoint = backflowPos;
   if (needsMasterValve(totalGPM)) {
     const masterValve = VALVES.find(v => v.id === '200-peb')!;
     const mvPos = { x: backflowPos.x + 10, y: backflowPos.y };
@@ -71,51 +90,70 @@ export function routePipes(
       type: 'mainline',
       zoneId: null,
     });
+    trunkStart = mvPos;
   }
 
-  const mainlineStartX = needsMasterValve(totalGPM) ? backflowPos.x + 10 : backflowPos.x + 5;
-
-  for (const zone of zones) {
-    const zoneHeads = heads.filter(h => h.zoneId === zone.id);
-    if (zoneHeads.length === 0) continue;
-
-    const zoneCenter = centroid(zoneHeads.map(h => ({ x: h.x, y: h.y })));
+  const grid = buildRoutingGrid(siteAnalysis);
+  const requests = zones
+    .map(zone => ({ valveId: `V-${zone.number}`, zone, zoneHeads: heads.filter(h => h.zoneId === zone.id) }))
+    .filter(r => r.zoneHeads.length > 0);
+  const manifolds = planManifolds(siteAnalysis, grid, requests);
 
-    const valvePos = { x: zoneCenter.x - 3, y: zoneCenter.y - 3 };
+  const zoneValves: Array<{ zone: Zone; zoneHeads: HeadPlacement[]; valvePos: SiteFeetPoint }> = [];
+  for (const { valveId, zone, zoneHeads } of requests) {
+    const valvePos = manifolds.valvePositions.get(zone.id)!;
     valveResults.push({
-      id: `V-${zone.number}`,
+      id: valveId,
       x: valvePos.x,
       y: valvePos.y,
       model: zone.valveModel,
       size: zone.valveSize,
       type: 'zone',
       zoneId: zone.id,
+      boxId: manifolds.boxes.find(b => b.valveIds.includes(valveId))!.id,
     });
+    zoneValves.push({ zone, zoneHeads, valvePos });
+  }
 
+  // Trunk to the first valve of each manifold, then a header along the rest of the box
+  const manifoldValves = manifolds.boxes.map(b => b.valveIds.map(id => valveResults.find(v => v.id === id)!));
+  const headers: Segment[] = manifoldValves.flatMap(valves => valves.slice(1).map((v, i) => [valves[i], v] as Segment));
+  const trunk = buildMainlineTrunk(grid, trunkStart, manifoldValves.map(valves => valves[0]));
+  for (const [start, end] of [...trunk, ...headers]) {
     pipes.push({
       id: nextPipeId(),
-      startX: mainlineStartX,
-      startY: pocPos.y,
-      endX: valvePos.x,
-      endY: valvePos.y,
+      startX: start.x,
+      startY: start.y,
+      endX: end.x,
+      endY: end.y,
       diameterIn: mainlineSize,
       material: 'sch40-pvc',
       type: 'mainline',
       zoneId: null,
     });
+  }
 
-    const lateralSize = zone.headType === 'rotor' ? 1 : 0.75;
+  // Flow sensor goes in with the master valve, which shuts the mainline on an alarm
+  const flowSensor = valveResults.some(v => v.type === 'master') ? placeFlowSensor(trunk, trunkStart, zones) : null;
+
+  // Laterals may hug foundations and trunks; only the footprints themselves block them
+  const lateralGrid = buildRoutingGrid(siteAnalysis, 0);
+  const areas = [...siteAnalysis.turfZones, ...siteAnalysis.bedZones, ...siteAnalysis.narrowStrips];
+  for (const { zone, zoneHeads, valvePos } of zoneValves) {
+    const lateralSize = getLateralSizeIn(zone.headType);
     const lateralMaterial = 'class200-pvc' as const;
+    const outlines = areas
+      .filter(a => zoneHeads.some(h => h.sourceAreaId === a.id))
+      .map(a => zoneOutline(zoneToFeet(a, frame)));
 
-    for (const head of zoneHeads) {
-      if (head.type === 'quick-coupler') continue;
-      const nearestToValve = findNearestHead(head, zoneHeads, valvePos);
+    const served = zoneHeads.filter(h => h.type !== 'quick-coupler');
+    for (const [start, end] of buildLateralTree(lateralGrid, valvePos, served, outlines)) {
       pipes.push({
         id: nextPipeId(),
-        startX: nearestToValve.x,
-        startY: nearestToValve.y,
-        endX: head.x,
-        endY: head.y,
+        startX: start.x,
+        startY: start.y,
+        endX: end.x,
+        endY: end.y,
         diameterIn: lateralSize,
         material: lateralMaterial,
         type: zone.headType === 'drip' ? 'drip-supply' : 'lateral',
@@ -129,21 +167,178 @@ export function routePipes(
     valves: valveResults,
     poc: pocPos,
     backflow: { ...backflowPos, model: rpz.model, size: mainlineSize },
-    controller: { ...controllerPos, model: 'ESP-LXME2' },
+    valveBoxes: manifolds.boxes,
+    flowSensor,
+    controller: { ...controllerPos, model: selectController(projectInput.wiringMode).model },
     rainSensor: { x: controllerPos.x + 2, y: controllerPos.y - 2, model: 'Rain-Clik' },
   };
 }
 
-function findNearestHead(target: HeadPlacement, allHeads: HeadPlacement[], valvePos: { x: number; y: number }): { x: number; y: number } {
-  let nearest = valvePos;
-  let minDist = distance(target, valvePos);
-  for (const h of allHeads) {
-    if (h.id === target.id) continue;
-    const d = distance(target, h);
-    if (d < minDist) {
-      minDist = d;
-      nearest = { x: h.x, y: h.y };
+export function locatePoc(siteAnalysis: SiteAnalysis, projectInput: ProjectInput): SiteFeetPoint {
+  const frame = siteFrame(siteAnalysis);
+  return resolveLocation(frame, projectInput.imageMarkup?.waterSourceLocation, siteAnalysis.waterSourceLocation)
+    || { x: 5, y: frame.lengthFt / 2 };
+}
+
+/**
+ * Sensor sized for the range of zone flows, on the single line out of the
+ * master valve: far enough along it, through any bends, for its straight
+ * run of pipe ahead, but never past the first tee, where it would stop
+ * seeing every zone's flow. A tee right at the master valve leaves it
+ * directly below the valve, with no straight run.
+ */
+function placeFlowSensor(trunk: Segment[], start: SiteFeetPoint, zones: Zone[]): FlowSensorPlacement | null {
+  if (zones.length === 0) return null;
+  const spec = selectFlowSensor(Math.min(...zones.map(z => z.totalGPM)), Math.max(...zones.map(z => z.totalGPM)));
+  const requiredFt = Math.max(2, DESIGN_RULES.flowSensor.straightRunDiameters * spec.sizeIn / 12);
+
+  let at: SiteFeetPoint = start;
+  let runFt = 0;
+  for (;;) {
+    const out = trunk.filter(([a]) => distance(a, at) <= TEE_TOLERANCE_FT);
+    if (out.length !== 1) break;
+    const [a, b] = out[0];
+    const len = distance(a, b);
+    if (runFt + len >= requiredFt) {
+      const t = (requiredFt - runFt) / len;
+      at = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+      runFt = requiredFt;
+      break;
+    }
+    at = b;
+    runFt += len;
+  }
+
+  return {
+    x: at.x,
+    y: at.y,
+    manufacturer: spec.manufacturer,
+    model: spec.model,
+    sizeIn: spec.sizeIn,
+    minGPM: spec.minGPM,
+    maxGPM: spec.maxGPM,
+    upstreamRunFt: Math.round(runFt * 10) / 10,
+  };
+}
+
+/**
+ * One branching mainline from the start to every valve. Valves join in order
+ * of distance to the pipe already laid, each along its least-cost path, and
+ * the segment it tees into is split there so the tee is a pipe junction.
+ * Tees within a grid cell of an existing joint move onto it.
+ */
+function buildMainlineTrunk(grid: RoutingGrid, start: SiteFeetPoint, valvePoints: SiteFeetPoint[]): Segment[] {
+  let trunk: Segment[] = [];
+  const network = (): Segment[] => trunk.length > 0 ? trunk : [[start, start]];
+  const remaining = [...valvePoints];
+
+  while (remaining.length > 0) {
+    const gap = (p: SiteFeetPoint) => distance(p, nearestOnNetwork(p, network()));
+    const next = remaining.reduce((best, p) => gap(p) < gap(best) ? p : best);
+    remaining.splice(remaining.indexOf(next), 1);
+    if (gap(next) <= TEE_TOLERANCE_FT) continue;
+
+    const path = routeToNetwork(grid, next, network()).reverse();
+    const joint = trunk.flat().find(j => distance(j, path[0]) <= grid.cellFt);
+    if (joint) path[0] = joint;
+    else trunk = splitAt(trunk, path[0]);
+    for (let i = 1; i < path.length; i++) {
+      if (distance(path[i - 1], path[i]) > 0) trunk.push([path[i - 1], path[i]]);
+    }
+  }
+  return trunk;
+}
+
+// Split whichever segment the point lies on
+function splitAt(trunk: Segment[], pt: SiteFeetPoint): Segment[] {
+  const idx = trunk.findIndex(([a, b]) => distanceToSegment(pt, a, b) <= TEE_TOLERANCE_FT);
+  if (idx < 0) return trunk;
+  const [a, b] = trunk[idx];
+  return [...trunk.slice(0, idx), [a, pt], [pt, b], ...trunk.slice(idx + 1)];
+}
+
+// User-marked points win over the AI's detection
+function resolveLocation(
+  frame: SiteFrame,
+  marked: NormalizedPoint | undefined,
+  detected: NormalizedPoint | null
+): SiteFeetPoint | null {
+  const point = marked || detected;
+  return point ? normalizedToFeet(point, frame) : null;
+}
+
+/**
+ * Minimum spanning tree (Prim) from the valve over the zone's heads. A link
+ * costs what the path router charges for the run, plus a premium for the
+ * length outside the zone's own planting areas. Links whose straight run
+ * leaves open ground are priced at their straight length until they come up,
+ * then replaced by the router's path around the structure or paving; links
+ * the router cannot get through are dropped, and a head left with none is
+ * an error. Segments run from the valve side outward.
+ */
+function buildLateralTree(grid: RoutingGrid, valvePos: SiteFeetPoint, heads: HeadPlacement[], outlines: Point[][]): Segment[] {
+  const nodes: SiteFeetPoint[] = [valvePos, ...heads.map(h => ({ x: h.x, y: h.y }))];
+  const pathCost = (path: Point[]): number => path.slice(1).reduce((sum, p, k) =>
+    sum + runCost(grid, path[k], p) + lengthOutside(path[k], p, outlines) * OUTSIDE_ZONE_COST, 0);
+  const link = (from: number, to: number): LateralLink => {
+    const straight: Point[] = [nodes[from], nodes[to]];
+    const open = runCost(grid, nodes[from], nodes[to]) <= distance(nodes[from], nodes[to]) + 1e-6;
+    return open
+      ? { from, to, cost: pathCost(straight), path: straight }
+      : { from, to, cost: distance(nodes[from], nodes[to]) + lengthOutside(nodes[from], nodes[to], outlines) * OUTSIDE_ZONE_COST, path: null };
+  };
+
+  const inTree = nodes.map((_, i) => i === 0);
+  let candidates = nodes.slice(1).map((_, i) => link(0, i + 1));
+  const segments: Segment[] = [];
+  while (candidates.length > 0) {
+    const next = candidates.reduce((best, c) => c.cost < best.cost ? c : best);
+    candidates = candidates.filter(c => c !== next);
+    if (!next.path) {
+      const path = routeToNetwork(grid, nodes[next.from], [[nodes[next.to], nodes[next.to]]]);
+      const cost = pathCost(path);
+      if (cost !== Infinity) candidates.push({ ...next, cost, path });
+      continue;
     }
+
+    inTree[next.to] = true;
+    candidates = candidates.filter(c => !inTree[c.to]);
+    for (let k = 1; k < next.path.length; k++) {
+      if (distance(next.path[k - 1], next.path[k]) > 0) segments.push([next.path[k - 1], next.path[k]]);
+    }
+    for (let i = 1; i < nodes.length; i++) {
+      if (!inTree[i]) candidates.push(link(next.to, i));
+    }
+  }
+
+  const stranded = heads.filter((_, i) => !inTree[i + 1]);
+  if (stranded.length > 0) {
+    throw new Error(
+      `No lateral can reach head(s) ${stranded.map(h => h.id).join(', ')} without passing through a structure or tree trunk. ` +
+      `Move the head(s) out of the footprint or trace the area around it.`
+    );
+  }
+  return segments;
+}
+
+// A candidate link; the path is null until a blocked or paved run is routed
+interface LateralLink {
+  from: number;
+  to: number;
+  cost: number;
+  path: Point[] | null;
+}
+
+// Feet of a straight run outside every outline, sampled each foot
+function lengthOutside(a: Point, b: Point, outlines: Point[][]): number {
+  if (outlines.length === 0) return 0;
+  const len = distance(a, b);
+  const steps = Math.max(1, Math.ceil(len));
+  let outside = 0;
+  for (let s = 0; s < steps; s++) {
+    const pt = { x: a.x + (b.x - a.x) * (s + 0.5) / steps, y: a.y + (b.y - a.y) * (s + 0.5) / steps };
+    const inZone = outlines.some(o => isPointInPolygon(pt, o) || distanceToPolygonEdge(pt, o) <= ZONE_EDGE_TOLERANCE_FT);
+    if (!inZone) outside += len / steps;
   }
-  return nearest;
+  return outside;
 }
@@ -0,0 +1,51 @@
+import { HeadPlacement, PipeSegment, Zone } from '../types';
+import { recommendPipeSize, PIPE_CAPACITIES } from '../data/hydraulics';
+import { buildPipeTree, headDemand, downstreamFlows } from './pipeNetwork';
+import { Point, distance } from '../utils/geometry';
+
+/**
+ * Sizes every segment for the most flow it carries while any one zone runs,
+ * so laterals telescope down toward their last head and each mainline run
+ * carries only the zones beyond it.
+ */
+export function sizePipes(
+  pipes: PipeSegment[],
+  heads: HeadPlacement[],
+  zones: Zone[],
+  rootPoint: Point
+): PipeSegment[] {
+  const peakGPM = new Map<string, number>();
+  const mainlines = pipes.filter(p => p.zoneId === null);
+  const carry = (pipeId: string, gpm: number) => peakGPM.set(pipeId, Math.max(peakGPM.get(pipeId) || 0, gpm));
+
+  for (const zone of zones) {
+    const zoneHeads = heads.filter(h => h.zoneId === zone.id);
+    const laterals = pipes.filter(p => p.zoneId === zone.id);
+    const tree = buildPipeTree([...mainlines, ...laterals], rootPoint);
+    const flow = downstreamFlows(tree, headDemand(tree, zoneHeads));
+    for (const node of tree.order) {
+      const edge = tree.parentEdge.get(node);
+      if (edge) carry(edge.pipe.id, flow.get(node) || 0);
+    }
+
+    // Laterals the routing left off the tree carry at least the head at their far end
+    for (const pipe of laterals) {
+      if (peakGPM.has(pipe.id)) continue;
+      const end = { x: pipe.endX, y: pipe.endY };
+      carry(pipe.id, zoneHeads.find(h => distance(h, end) < 0.5)?.gpm ?? 0);
+    }
+  }
+
+  return pipes.map(pipe => {
+    const sizeIn = sizeForFlow(peakGPM.get(pipe.id) || 0, pipe.type === 'mainline' ? 'mainline' : 'lateral');
+    return sizeIn === pipe.diameterIn ? pipe : { ...pipe, diameterIn: sizeIn };
+  });
+}
+
+// Smallest size within VELOCITY_LIMITS (PIPE_CAPACITIES at 5 FPS); the largest allowed size past the table
+function sizeForFlow(gpm: number, application: 'mainline' | 'lateral'): number {
+  const recommended = recommendPipeSize(gpm, application);
+  if (recommended) return recommended.sizeIn;
+  const allowed = PIPE_CAPACITIES.filter(p => application === 'mainline' ? p.sizeIn >= 1.5 : p.sizeIn <= 1.5);
+  return Math.max(...allowed.map(p => p.sizeIn));
+}
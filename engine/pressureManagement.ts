@@ -0,0 +1,194 @@
+import { HeadPlacement, Zone, ProjectInput, HydraulicReport, ZoneHydraulics, PressureManagement, ZoneRegulator, BoosterPump } from '../types';
+import { RoutingResult } from './pipeRouting';
+import { ElevationFn } from './gradeModel';
+import { solveHydraulics, PressureSettings } from './hydraulicSolver';
+import { DESIGN_RULES } from '../data/designRules';
+import { SPRINKLER_HEADS, VALVES, BOOSTER_PUMPS, PUMP_START_RELAY, PumpSpec, HeadSpec } from '../data/materials';
+import { ALL_NOZZLES, NozzleSpec, getNozzlePerformance } from '../data/nozzlePerformance';
+import { ELEVATION_CONSTANTS } from '../data/hydraulics';
+
+// Dial range of the valve regulator
+const REGULATOR_MIN_PSI = 15;
+const REGULATOR_MAX_PSI = 100;
+
+/**
+ * Matches the supply to the nozzles. A shortfall at any zone's critical head
+ * sizes a booster pump; heads above their nozzle's maximum move to a
+ * pressure-regulating body, or the zone valve gets a regulator when a head
+ * has no regulated version. Every nozzle is then re-rated at its solved
+ * pressure. Returns the solve with all of that in place.
+ */
+export function managePressure(
+  heads: HeadPlacement[],
+  zones: Zone[],
+  routing: RoutingResult,
+  projectInput: ProjectInput,
+  elevationAt: ElevationFn
+): { report: HydraulicReport; heads: HeadPlacement[]; pressure: PressureManagement } {
+  const settings: PressureSettings = {};
+  let solved = solveHydraulics(heads, zones, routing, projectInput, elevationAt);
+  const notes: string[] = [];
+
+  // Booster pump: lift the worst critical head to its minimum plus margin
+  let booster: BoosterPump | null = null;
+  const shortfallPSI = Math.max(0, ...solved.report.zones.map(z => z.minimumPSI - z.criticalHeadPSI));
+  if (shortfallPSI > 0) {
+    const boostPSI = Math.ceil(shortfallPSI + DESIGN_RULES.hydraulics.boosterMarginPSI);
+    booster = selectBoosterPump(Math.max(...zones.map(z => z.totalGPM)), boostPSI);
+    settings.boostPSI = boostPSI;
+    solved = solveHydraulics(heads, zones, routing, projectInput, elevationAt, settings);
+    notes.push(
+      `Install ${booster.manufacturer} ${booster.model} ${booster.horsepower} HP booster pump immediately downstream of the backflow preventer, ` +
+      `rated ${booster.requiredGPM} GPM at ${booster.requiredTDHFt} ft TDH (${booster.boostPSI} PSI boost).`,
+      booster.electricalNote
+    );
+  }
+
+  // Over-pressure: regulated heads where every affected head has one, else a valve regulator
+  let current = solved.heads;
+  const prsHeadIds: string[] = [];
+  const regulators: ZoneRegulator[] = [];
+  const regulatorSpec = VALVES.find(v => v.id === 'prs-dial')!;
+  settings.regulatorPSI = new Map();
+  for (const zone of zones) {
+    const over = current.filter(h => h.zoneId === zone.id && isOverPressure(h));
+    if (over.length === 0) continue;
+
+    const variants = new Map(over.map(h => [h.id, prsVariant(h)]));
+    if (over.every(h => variants.get(h.id))) {
+      current = current.map(h => {
+        const variant = variants.get(h.id);
+        return variant ? { ...h, model: variant.model, manufacturer: variant.manufacturer } : h;
+      });
+      prsHeadIds.push(...over.map(h => h.id));
+      continue;
+    }
+
+    const zh = solved.report.zones.find(z => z.zoneId === zone.id);
+    const valve = routing.valves.find(v => v.zoneId === zone.id);
+    if (!zh || !valve) continue;
+    const setPSI = regulatorSetting(zh, current.filter(h => h.zoneId === zone.id));
+    settings.regulatorPSI.set(zone.id, setPSI);
+    regulators.push({ zoneId: zone.id, valveId: valve.id, model: regulatorSpec.model, setPSI });
+  }
+
+  if (prsHeadIds.length > 0) {
+    notes.push(`${prsHeadIds.length} head(s) specified on pressure-regulating bodies; supply pressure exceeds the nozzle maximum.`);
+  }
+  for (const r of regulators) {
+    const zone = zones.find(z => z.id === r.zoneId)!;
+    notes.push(`Fit ${regulatorSpec.manufacturer} ${r.model} to the Zone ${zone.number} valve and set to ${r.setPSI} PSI.`);
+  }
+
+  if (prsHeadIds.length > 0 || regulators.length > 0) {
+    solved = solveHydraulics(current, zones, routing, projectInput, elevationAt, settings);
+  }
+
+  // Nozzles were picked at the layout's pressure estimate: rate each at its solved
+  // pressure, then solve once more with the flows that gives
+  const offTable = solved.heads.filter(h => {
+    const range = tablePressureRange(h);
+    return range !== null && (h.psi < range[0] || h.psi > range[1]);
+  });
+  solved = solveHydraulics(solved.heads.map(rateAtSolvedPressure), zones, routing, projectInput, elevationAt, settings);
+  if (offTable.length > 0) {
+    notes.push(
+      `Head(s) ${offTable.map(h => h.id).join(', ')} solve outside their nozzle's published pressure table; ` +
+      `throw and flow there are taken from the nearest table row.`
+    );
+  }
+
+  return {
+    report: solved.report,
+    heads: solved.heads,
+    pressure: { regulators, prsHeadIds, booster, notes },
+  };
+}
+
+function nozzleFor(head: HeadPlacement): NozzleSpec | undefined {
+  return ALL_NOZZLES.find(n => n.id === head.nozzle);
+}
+
+// Published throw and flow at the head's solved nozzle pressure, prorated by arc like the layout
+function rateAtSolvedPressure(head: HeadPlacement): HeadPlacement {
+  const perf = nozzleFor(head) && head.arc > 0 ? getNozzlePerformance(head.nozzle, head.psi) : undefined;
+  if (!perf) return head;
+  return { ...head, radiusFt: Math.round(perf.radiusFt * 10) / 10, gpm: perf.gpm * (head.arc / 360) };
+}
+
+function tablePressureRange(head: HeadPlacement): [number, number] | null {
+  const table = nozzleFor(head)?.performanceTable;
+  if (!table || table.length === 0 || head.arc === 0) return null;
+  const pressures = table.map(p => p.pressurePSI);
+  return [Math.min(...pressures), Math.max(...pressures)];
+}
+
+// Heads are solved at their nozzle pressure, so regulated bodies never show as over
+function isOverPressure(head: HeadPlacement): boolean {
+  const nozzle = nozzleFor(head);
+  return !!nozzle && head.psi > nozzle.maxPressurePSI;
+}
+
+function prsVariant(head: HeadPlacement): HeadSpec | undefined {
+  const variantId = SPRINKLER_HEADS.find(s => s.model === head.model)?.prsVariantId;
+  return variantId ? SPRINKLER_HEADS.find(s => s.id === variantId) : undefined;
+}
+
+/**
+ * Valve outlet pressure that puts the critical head at its nozzle's optimal
+ * pressure without pushing any head over its maximum, but never below what
+ * the critical head needs.
+ */
+function regulatorSetting(zh: ZoneHydraulics, zoneHeads: HeadPlacement[]): number {
+  const dropPSI = zh.valveOutletPSI - zh.criticalHeadPSI;
+  const critical = zoneHeads.find(h => h.id === zh.criticalHeadId);
+  const optimalPSI = (critical && nozzleFor(critical)?.optimalPressurePSI) ?? zh.minimumPSI;
+  const lowestMaxPSI = Math.min(...zoneHeads.map(h => nozzleFor(h)?.maxPressurePSI ?? Infinity));
+  const setPSI = Math.max(Math.min(optimalPSI + dropPSI, lowestMaxPSI), zh.minimumPSI + dropPSI);
+  return Math.min(REGULATOR_MAX_PSI, Math.max(REGULATOR_MIN_PSI, Math.round(setPSI)));
+}
+
+/**
+ * Smallest catalog pump whose curve still delivers the boost at the largest
+ * zone's flow.
+ */
+function selectBoosterPump(requiredGPM: number, boostPSI: number): BoosterPump {
+  const tdhFt = Math.ceil(boostPSI * ELEVATION_CONSTANTS.feetPerPSI);
+  const pump = BOOSTER_PUMPS.find(p => headAtFlow(p, requiredGPM) >= tdhFt);
+  if (!pump) {
+    throw new Error(
+      `No catalog booster pump delivers ${requiredGPM} GPM at ${tdhFt} ft TDH. ` +
+      `Static pressure is too low for this design; a custom pump station is required.`
+    );
+  }
+
+  const phase = pump.phase === 1 ? 'single' : 'three';
+  return {
+    manufacturer: pump.manufacturer,
+    model: pump.model,
+    horsepower: pump.horsepower,
+    requiredGPM: Math.round(requiredGPM * 10) / 10,
+    requiredTDHFt: tdhFt,
+    boostPSI,
+    voltage: pump.voltage,
+    phase: pump.phase,
+    fullLoadAmps: pump.fullLoadAmps,
+    breakerAmps: pump.breakerAmps,
+    electricalNote:
+      `Electrical: dedicated ${pump.voltage}V ${phase}-phase ${pump.breakerAmps}A circuit (${pump.fullLoadAmps} FLA) with a lockable disconnect ` +
+      `within sight of the pump, by a licensed electrician. Start the pump from the controller P/MV terminal through a ` +
+      `${PUMP_START_RELAY.manufacturer} ${PUMP_START_RELAY.model} pump start relay.`,
+  };
+}
+
+// Head the pump develops at a flow, interpolated along its curve; zero past the end
+function headAtFlow(pump: PumpSpec, gpm: number): number {
+  const curve = pump.curve;
+  for (let i = 1; i < curve.length; i++) {
+    if (gpm <= curve[i].gpm) {
+      const t = (gpm - curve[i - 1].gpm) / (curve[i].gpm - curve[i - 1].gpm);
+      return curve[i - 1].headFt + t * (curve[i].headFt - curve[i - 1].headFt);
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,162 @@
+import { SiteAnalysis, PipeSegment, Sleeve } from '../types';
+import { DESIGN_RULES, getSleeveSizeIn } from '../data/designRules';
+import { Point, distance, segmentIntervalsInPolygon } from '../utils/geometry';
+import { siteFrame, normalizedToFeet } from '../utils/coordinates';
+import { Segment } from './pathRouter';
+
+let sleeveCounter = 0;
+
+function nextSleeveId(): string {
+  return `S-${++sleeveCounter}`;
+}
+
+// Pipe ends this close are one joint (matches the pipe network's node tolerance)
+const JOINT_TOLERANCE_FT = 0.5;
+
+interface Carrier {
+  start: Point;
+  end: Point;
+  carries: Sleeve['carries'];
+  carrierSizeIn: number | null;
+  pipeId: string | null;
+}
+
+// Connected runs of one carrier chained end to end, so a bend under paving stays one crossing
+interface CarrierRun {
+  points: Point[];
+  pipeIds: Array<string | null>; // per leg
+  carries: Sleeve['carries'];
+  carrierSizeIn: number | null;
+}
+
+/**
+ * A sleeve wherever a pipe or the control wire passes under paving. Each
+ * carrier is chained into runs through its bends before intersecting, so a
+ * crossing keeps one sleeve across the joints inside it; crossings of
+ * adjoining paved areas that overlap once extended past the edges share one
+ * sleeve too.
+ */
+export function detectSleeves(siteAnalysis: SiteAnalysis, pipes: PipeSegment[], wireRuns: Segment[]): Sleeve[] {
+  sleeveCounter = 0;
+  const frame = siteFrame(siteAnalysis);
+  const paving = siteAnalysis.hardscapeBoundaries
+    .filter(h => h.type !== 'building' && h.boundaryPoints.length >= 3)
+    .map(h => ({ type: h.type, outline: h.boundaryPoints.map(p => normalizedToFeet(p, frame)) }));
+  if (paving.length === 0) return [];
+
+  const carriers: Carrier[] = [
+    ...pipes.map(p => ({
+      start: { x: p.startX, y: p.startY },
+      end: { x: p.endX, y: p.endY },
+      carries: p.type,
+      carrierSizeIn: p.diameterIn,
+      pipeId: p.id,
+    })),
+    ...wireRuns.map(([start, end]) => ({ start, end, carries: 'wire' as const, carrierSizeIn: null, pipeId: null })),
+  ].filter(c => distance(c.start, c.end) > 0);
+
+  const sleeves: Sleeve[] = [];
+  for (const run of chainRuns(carriers)) {
+    const { extendPastEdgeFt } = DESIGN_RULES.sleeves;
+    const legStart = [0];
+    for (let k = 1; k < run.points.length; k++) legStart.push(legStart[k - 1] + distance(run.points[k - 1], run.points[k]));
+    const totalFt = legStart[legStart.length - 1];
+
+    const crossings = run.points.slice(1).flatMap((end, k) => {
+      const legFt = legStart[k + 1] - legStart[k];
+      return paving.flatMap(p => segmentIntervalsInPolygon(run.points[k], end, p.outline).map(([t0, t1]) => ({
+        from: Math.max(0, legStart[k] + t0 * legFt - extendPastEdgeFt),
+        to: Math.min(totalFt, legStart[k] + t1 * legFt + extendPastEdgeFt),
+        pipeId: run.pipeIds[k],
+        surfaces: [p.type as string],
+      })));
+    }).sort((a, b) => a.from - b.from);
+
+    const merged: typeof crossings = [];
+    for (const c of crossings) {
+      const last = merged[merged.length - 1];
+      if (last && c.from <= last.to) {
+        last.to = Math.max(last.to, c.to);
+        if (!last.surfaces.includes(c.surfaces[0])) last.surfaces.push(c.surfaces[0]);
+      } else {
+        merged.push(c);
+      }
+    }
+
+    for (const { from, to, pipeId, surfaces } of merged) {
+      const start = pointAlong(run.points, legStart, from), end = pointAlong(run.points, legStart, to);
+      sleeves.push({
+        id: nextSleeveId(),
+        startX: start.x,
+        startY: start.y,
+        endX: end.x,
+        endY: end.y,
+        sizeIn: run.carrierSizeIn === null ? DESIGN_RULES.sleeves.wireSleeveSizeIn : getSleeveSizeIn(run.carrierSizeIn),
+        lengthFt: Math.ceil(to - from),
+        carries: run.carries,
+        carrierSizeIn: run.carrierSizeIn,
+        pipeId,
+        surface: surfaces.join(' / '),
+      });
+    }
+  }
+  return sleeves;
+}
+
+/**
+ * Chains segments of the same kind and size through every joint where just
+ * two of them meet; tees and dead ends finish a run.
+ */
+function chainRuns(carriers: Carrier[]): CarrierRun[] {
+  const runs: CarrierRun[] = [];
+  const groups = new Map<string, Carrier[]>();
+  for (const c of carriers) {
+    const key = `${c.carries}|${c.carrierSizeIn}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(c);
+  }
+
+  for (const group of groups.values()) {
+    const joints: Point[] = [];
+    const jointAt = (pt: Point): number => {
+      const idx = joints.findIndex(j => distance(j, pt) <= JOINT_TOLERANCE_FT);
+      if (idx >= 0) return idx;
+      joints.push(pt);
+      return joints.length - 1;
+    };
+    const ends = group.map(c => [jointAt(c.start), jointAt(c.end)]);
+    const legsAt = joints.map((_, j) => group.map((_, i) => i).filter(i => ends[i].includes(j)));
+    const used = group.map(() => false);
+
+    const walk = (first: number, from: number) => {
+      const run: CarrierRun = { points: [joints[from]], pipeIds: [], carries: group[first].carries, carrierSizeIn: group[first].carrierSizeIn };
+      let leg = first, at = from;
+      for (;;) {
+        used[leg] = true;
+        at = ends[leg][0] === at ? ends[leg][1] : ends[leg][0];
+        run.points.push(joints[at]);
+        run.pipeIds.push(group[leg].pipeId);
+        const next = legsAt[at].length === 2 ? legsAt[at].find(i => !used[i]) : undefined;
+        if (next === undefined) break;
+        leg = next;
+      }
+      runs.push(run);
+    };
+
+    // Runs start at tees and dead ends; whatever is left is a closed loop
+    for (let j = 0; j < joints.length; j++) {
+      if (legsAt[j].length === 2) continue;
+      for (const leg of legsAt[j]) if (!used[leg]) walk(leg, j);
+    }
+    group.forEach((_, i) => { if (!used[i]) walk(i, ends[i][0]); });
+  }
+  return runs;
+}
+
+function pointAlong(points: Point[], legStart: number[], ft: number): Point {
+  let k = 0;
+  while (k < points.length - 2 && ft > legStart[k + 1]) k++;
+  const legFt = legStart[k + 1] - legStart[k];
+  const t = legFt === 0 ? 0 : (ft - legStart[k]) / legFt;
+  return { x: points[k].x + (points[k + 1].x - points[k].x) * t, y: points[k].y + (points[k + 1].y - points[k].y) * t };
+}
@@ -0,0 +1,50 @@
+import { ProjectInput, SupplyCapacity } from '../types';
+import { DESIGN_RULES } from '../data/designRules';
+import { getDeviceLossEntry, getDevicePressureLoss, getMeterCapacity, getPipeCapacity } from '../data/hydraulics';
+
+/**
+ * Flow the service can deliver to one zone: the lowest of the 75% meter
+ * rule, the service line at the velocity limit, and the flow at which meter
+ * loss still leaves minimum operating pressure after the backflow preventer.
+ * When static pressure cannot cover even that, the booster sized in pressure
+ * management makes up the difference and the meter rule governs.
+ */
+export function calculateSupplyCapacity(projectInput: ProjectInput): SupplyCapacity {
+  const sizeIn = projectInput.waterSupplySize;
+  const meter = getMeterCapacity(sizeIn);
+  const serviceLine = getPipeCapacity(sizeIn);
+  if (!meter || !serviceLine) {
+    throw new Error(`No meter or service line data for a ${sizeIn}" water supply.`);
+  }
+
+  const meterSafeGPM = meter.maxFlowGPM * DESIGN_RULES.hydraulics.maxMeterFlowFraction;
+  const serviceLineGPM = serviceLine.maxGPMAt5FPS;
+
+  // Meter loss grows with the square of flow from the table's reference point
+  const meterLoss = getDeviceLossEntry('meter', sizeIn);
+  const allowedMeterLoss = projectInput.staticPressurePSI
+    - getDevicePressureLoss('rpz', sizeIn)
+    - DESIGN_RULES.hydraulics.minOperatingPSI;
+  const pressureLimitedGPM = allowedMeterLoss > 0 && meterLoss?.atGPM
+    ? meterLoss.atGPM * Math.sqrt(allowedMeterLoss / meterLoss.pressureLossPSI)
+    : meterSafeGPM;
+
+  const limits: Array<[SupplyCapacity['limitedBy'], number]> = [
+    ['meter', meterSafeGPM],
+    ['service-line', serviceLineGPM],
+    ['pressure', pressureLimitedGPM],
+  ];
+  const [limitedBy, availableGPM] = limits.reduce((low, l) => l[1] < low[1] ? l : low);
+
+  return {
+    meterSafeGPM: round1(meterSafeGPM),
+    serviceLineGPM: round1(serviceLineGPM),
+    pressureLimitedGPM: round1(pressureLimitedGPM),
+    availableGPM: round1(availableGPM),
+    limitedBy,
+  };
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,172 @@
+import { SiteAnalysis, SiteFeetPoint, Zone, ControllerUnit, TwoWirePlan, Decoder, SurgeArrestor } from '../types';
+import { RoutingResult } from './pipeRouting';
+import { layWirePaths, sharesBox, MANIFOLD_TOLERANCE_FT } from './wireRouting';
+import { DESIGN_RULES } from '../data/designRules';
+import { DECODERS, TWO_WIRE_CABLES } from '../data/materials';
+import { distance, distanceToSegment, closestPointOnSegment, pathLength } from '../utils/geometry';
+
+let decoderCounter = 0;
+let arrestorCounter = 0;
+
+function nextDecoderId(): string {
+  return `D-${++decoderCounter}`;
+}
+
+function nextArrestorId(): string {
+  return `LSP-${++arrestorCounter}`;
+}
+
+// Valves sharing a box, with the two-wire path out to it
+interface DecoderBox {
+  x: number;
+  y: number;
+  valveIds: string[];
+  path: SiteFeetPoint[];
+  pathFt: number;
+  decoders: Decoder[];
+}
+
+/**
+ * A two-wire decoder path from each controller along the mainline trench to
+ * the valves on its stations. Each valve box gets the fewest decoders that
+ * drive its valves, each output addressed to its valve's station on that
+ * controller; surge arrestors go at every path end and wherever the spacing
+ * or decoder count since the last one runs out.
+ */
+export function routeTwoWire(
+  siteAnalysis: SiteAnalysis,
+  routing: RoutingResult,
+  zones: Zone[],
+  controllers: ControllerUnit[]
+): TwoWirePlan {
+  decoderCounter = 0;
+  arrestorCounter = 0;
+  const layouts = layWirePaths(siteAnalysis, routing, zones, controllers).filter(l => l.routes.length > 0);
+
+  const longestPathFt = Math.ceil(Math.max(0, ...layouts.flatMap(l => l.routes.map(r => pathLength(r.path)))));
+  const cable = TWO_WIRE_CABLES.find(c => c.maxPathFt >= longestPathFt);
+  if (!cable) {
+    throw new Error(
+      `Two-wire path to the farthest valve runs ${longestPathFt} ft, beyond the ` +
+      `${TWO_WIRE_CABLES[TWO_WIRE_CABLES.length - 1].maxPathFt} ft limit. Split the site between two controllers.`
+    );
+  }
+
+  // Each output is programmed to its valve's station on its controller
+  const stationOf = (valveId: string) => {
+    const zoneId = routing.valves.find(v => v.id === valveId)!.zoneId;
+    return zoneId === null ? controllers[0]?.masterValveStation ?? 0 : zones.find(z => z.id === zoneId)?.station ?? 0;
+  };
+
+  const decoders: Decoder[] = [];
+  const surgeArrestors: SurgeArrestor[] = [];
+  for (const layout of layouts) {
+    const boxes: DecoderBox[] = [];
+    for (const route of layout.routes) {
+      const valve = routing.valves.find(v => v.id === route.valveId)!;
+      const box = boxes.find(b => sharesBox(routing.valves.find(v => v.id === b.valveIds[0])!, valve));
+      if (box) {
+        box.valveIds.push(valve.id);
+      } else {
+        const site = routing.valveBoxes.find(b => b.id === valve.boxId) ?? valve;
+        boxes.push({ x: site.x, y: site.y, valveIds: [valve.id], path: route.path, pathFt: pathLength(route.path), decoders: [] });
+      }
+    }
+    boxes.sort((a, b) => a.pathFt - b.pathFt);
+
+    for (const box of boxes) {
+      const valveIds = [...box.valveIds].sort((a, b) => stationOf(a) - stationOf(b));
+      while (valveIds.length > 0) {
+        const spec = DECODERS.find(d => d.outputs >= valveIds.length) ?? DECODERS[DECODERS.length - 1];
+        box.decoders.push({
+          id: nextDecoderId(),
+          model: spec.model,
+          controllerId: layout.controllerId,
+          x: box.x,
+          y: box.y,
+          outputs: valveIds.splice(0, spec.outputs).map(valveId => ({
+            address: stationOf(valveId),
+            valveId,
+            zoneId: routing.valves.find(v => v.id === valveId)!.zoneId,
+          })),
+        });
+      }
+    }
+
+    surgeArrestors.push(...placeArrestors(boxes));
+    decoders.push(...boxes.flatMap(b => b.decoders));
+  }
+
+  return {
+    cable: {
+      manufacturer: cable.manufacturer,
+      model: cable.model,
+      gaugeAWG: cable.awg,
+      lengthFt: layouts.reduce((sum, l) => sum + l.trenchLengthFt, 0),
+    },
+    segments: layouts.flatMap(l => l.segments),
+    longestPathFt,
+    decoders,
+    surgeArrestors,
+    groundRods: surgeArrestors.length + layouts.length,
+    spliceBoxes: layouts.flatMap(l => l.spliceBoxes),
+  };
+}
+
+/**
+ * Walks out to each box nearest first. Along its path, adds a standalone
+ * arrestor wherever the spacing since the last one runs out, then one at
+ * the box itself if the path ends there or enough decoders have built up.
+ */
+function placeArrestors(boxes: DecoderBox[]): SurgeArrestor[] {
+  const { arrestorSpacingFt, decodersPerArrestor } = DESIGN_RULES.twoWire;
+  const arrestors: SurgeArrestor[] = [];
+
+  for (const box of boxes) {
+    const onPath = (pt: SiteFeetPoint) => box.path.some((p, i) => i > 0 && distanceToSegment(pt, box.path[i - 1], p) <= MANIFOLD_TOLERANCE_FT);
+    const upstream = boxes.filter(b => b.pathFt <= box.pathFt && onPath(b));
+    const isEnd = !boxes.some(b => b !== box && b.pathFt > box.pathFt && b.path.some(p => distance(p, box) <= MANIFOLD_TOLERANCE_FT));
+
+    let lastFt = Math.max(0, ...arrestors.filter(onPath).map(a => distanceAlong(box.path, a)));
+    while (box.pathFt - lastFt > arrestorSpacingFt) {
+      lastFt += arrestorSpacingFt;
+      arrestors.push({ id: nextArrestorId(), ...pointAlong(box.path, lastFt), decoderId: null });
+    }
+
+    const decodersSince = upstream
+      .filter(b => distanceAlong(box.path, b) > lastFt)
+      .reduce((sum, b) => sum + b.decoders.length, 0);
+    if (isEnd || decodersSince >= decodersPerArrestor) {
+      arrestors.push({ id: nextArrestorId(), x: box.x, y: box.y, decoderId: box.decoders[0].id });
+    }
+  }
+  return arrestors;
+}
+
+// Distance from the controller along the path to the point's nearest spot on it
+function distanceAlong(path: SiteFeetPoint[], pt: SiteFeetPoint): number {
+  let best = Infinity, bestFt = 0, runFt = 0;
+  for (let i = 1; i < path.length; i++) {
+    const q = closestPointOnSegment(pt, path[i - 1], path[i]);
+    const d = distance(pt, q);
+    if (d < best) {
+      best = d;
+      bestFt = runFt + distance(path[i - 1], q);
+    }
+    runFt += distance(path[i - 1], path[i]);
+  }
+  return bestFt;
+}
+
+function pointAlong(path: SiteFeetPoint[], ft: number): SiteFeetPoint {
+  let remaining = ft;
+  for (let i = 1; i < path.length; i++) {
+    const len = distance(path[i - 1], path[i]);
+    if (remaining <= len) {
+      const t = len === 0 ? 0 : remaining / len;
+      return { x: path[i - 1].x + (path[i].x - path[i - 1].x) * t, y: path[i - 1].y + (path[i].y - path[i - 1].y) * t };
+    }
+    remaining -= len;
+  }
+  return path[path.length - 1];
+}
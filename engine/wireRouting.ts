@@ -0,0 +1,293 @@
+import { SiteAnalysis, SiteFeetPoint, WiringPlan, WireRun, WireSegment, SpliceBox, SpareWires, Zone, ControllerUnit } from '../types';
+import { RoutingResult } from './pipeRouting';
+import { Segment, buildRoutingGrid, routeToNetwork } from './pathRouter';
+import { DESIGN_RULES } from '../data/designRules';
+import { WIRE_GAUGES, VALVE_SOLENOID, WireGaugeSpec } from '../data/materials';
+import { distance, distanceToSegment, pathLength } from '../utils/geometry';
+
+// Points this close are one junction in the trench network
+const NODE_TOLERANCE_FT = 0.5;
+// Valves this close share a valve box
+export const MANIFOLD_TOLERANCE_FT = 3;
+
+let spliceCounter = 0;
+
+function nextSpliceId(): string {
+  return `SB-${++spliceCounter}`;
+}
+
+export interface ValveRoute {
+  valveId: string;
+  zoneId: string | null;
+  controllerId: string;
+  path: SiteFeetPoint[];
+  lengthFt: number; // with an expansion loop at each end
+}
+
+// Where one controller's wire goes, whatever runs in it
+export interface WireLayout {
+  controllerId: string;
+  routes: ValveRoute[];
+  segments: WireSegment[];
+  trenchLengthFt: number; // a single conductor through every segment, with the loops
+  spliceBoxes: SpliceBox[];
+}
+
+/**
+ * Control wire from each controller to the valves on its stations: a lead-in
+ * to the nearest point of the mainline trench, then along the trench. Each
+ * controller's common is sized first, then each zone conductor, both for the
+ * solenoid's inrush.
+ */
+export function routeWires(siteAnalysis: SiteAnalysis, routing: RoutingResult, zones: Zone[], controllers: ControllerUnit[]): WiringPlan {
+  const plan: WiringPlan = { runs: [], segments: [], commons: [], spliceBoxes: [], spares: [], totals: [] };
+  const addTotal = (use: 'zone' | 'common' | 'spare', gaugeAWG: number, lengthFt: number) => {
+    const total = plan.totals.find(t => t.use === use && t.gaugeAWG === gaugeAWG);
+    if (total) total.lengthFt += lengthFt;
+    else plan.totals.push({ use, gaugeAWG, lengthFt });
+  };
+
+  for (const layout of layWirePaths(siteAnalysis, routing, zones, controllers)) {
+    if (layout.routes.length === 0) continue;
+    const { common, runs } = sizeConductors(layout.routes, layout.routes.some(r => r.zoneId === null));
+    const spares = spareWires(runs, routing);
+    plan.runs.push(...runs);
+    plan.segments.push(...layout.segments);
+    plan.commons.push({ controllerId: layout.controllerId, gaugeAWG: common.awg, lengthFt: layout.trenchLengthFt });
+    plan.spliceBoxes.push(...layout.spliceBoxes);
+    plan.spares.push(...spares);
+    addTotal('common', common.awg, layout.trenchLengthFt);
+    for (const run of runs) addTotal('zone', run.gaugeAWG, run.lengthFt);
+    for (const spare of spares) addTotal('spare', spare.gaugeAWG, spare.count * spare.lengthFt);
+  }
+  return plan;
+}
+
+/**
+ * One layout per controller, for the valves on its stations; the master
+ * valve goes with the first controller.
+ */
+export function layWirePaths(siteAnalysis: SiteAnalysis, routing: RoutingResult, zones: Zone[], controllers: ControllerUnit[]): WireLayout[] {
+  spliceCounter = 0;
+  const units = controllers.length > 0 ? controllers : [{ id: 'C-1', x: routing.controller.x, y: routing.controller.y }];
+  const controllerOf = (valve: RoutingResult['valves'][0]) =>
+    zones.find(z => z.id === valve.zoneId)?.controllerId ?? units[0].id;
+  return units.map(unit => layControllerPaths(siteAnalysis, routing, unit, routing.valves.filter(v => controllerOf(v) === unit.id)));
+}
+
+/**
+ * Paths from the controller to each of its valves through the trench
+ * network, the trenches they occupy, and a splice box wherever the bundle
+ * branches away from a valve box.
+ */
+function layControllerPaths(
+  siteAnalysis: SiteAnalysis,
+  routing: RoutingResult,
+  unit: { id: string; x: number; y: number },
+  valves: RoutingResult['valves']
+): WireLayout {
+  const { slackFt } = DESIGN_RULES.wiring;
+  const controller = { x: unit.x, y: unit.y };
+
+  const trenches = trenchNetwork(siteAnalysis, routing, controller);
+  const parent = spanFrom(trenches, 0);
+
+  const routes: ValveRoute[] = valves.map(valve => {
+    const path = pathTo(trenches, parent, valve);
+    return {
+      valveId: valve.id,
+      zoneId: valve.zoneId,
+      controllerId: unit.id,
+      path,
+      lengthFt: Math.ceil(pathLength(path) + 2 * slackFt),
+    };
+  });
+
+  const used = new Map<string, [number, number]>();
+  for (const valve of valves) {
+    for (let node = nodeNear(trenches, valve); node > 0 && parent[node] >= 0; node = parent[node]) {
+      used.set(`${parent[node]}-${node}`, [parent[node], node]);
+    }
+  }
+  const degree = new Map<number, number>();
+  for (const [a, b] of used.values()) {
+    degree.set(a, (degree.get(a) || 0) + 1);
+    degree.set(b, (degree.get(b) || 0) + 1);
+  }
+  const spliceBoxes: SpliceBox[] = [];
+  for (const [node, d] of degree) {
+    const pt = trenches.nodes[node];
+    if (node === 0 || d < 3 || valves.some(v => distance(v, pt) <= MANIFOLD_TOLERANCE_FT)) continue;
+    spliceBoxes.push({ id: nextSpliceId(), x: pt.x, y: pt.y });
+  }
+
+  const segments: WireSegment[] = [...used.values()].map(([a, b]) => ({
+    startX: trenches.nodes[a].x,
+    startY: trenches.nodes[a].y,
+    endX: trenches.nodes[b].x,
+    endY: trenches.nodes[b].y,
+  }));
+  const trenchLengthFt = Math.ceil(
+    segments.reduce((sum, s) => sum + distance({ x: s.startX, y: s.startY }, { x: s.endX, y: s.endY }), 0)
+    + slackFt * (valves.length + 1)
+  );
+
+  return { controllerId: unit.id, routes, segments, trenchLengthFt, spliceBoxes };
+}
+
+// ============================================================================
+// VOLTAGE DROP
+// ============================================================================
+
+/**
+ * Smallest common that lets every run reach the solenoid's pull-in voltage
+ * with some zone gauge, then the smallest zone gauge for each run. The
+ * common also carries the master valve's holding current while a zone opens.
+ */
+function sizeConductors(routes: ValveRoute[], hasMaster: boolean): { common: WireGaugeSpec; runs: WireRun[] } {
+  const { minSolenoidVAC, minZoneAWG, minCommonAWG } = DESIGN_RULES.wiring;
+  const zoneGauges = WIRE_GAUGES.filter(g => g.awg <= minZoneAWG);
+  const commonGauges = WIRE_GAUGES.filter(g => g.awg <= minCommonAWG);
+
+  for (const common of commonGauges) {
+    const runs: WireRun[] = [];
+    for (const route of routes) {
+      const masterAmps = hasMaster && route.zoneId !== null ? VALVE_SOLENOID.holdingAmps : 0;
+      const gauge = zoneGauges.find(g => solenoidVAC(route.lengthFt, g, common, VALVE_SOLENOID.inrushAmps, masterAmps) >= minSolenoidVAC);
+      if (!gauge) break;
+      runs.push({
+        ...route,
+        gaugeAWG: gauge.awg,
+        inrushVAC: round1(solenoidVAC(route.lengthFt, gauge, common, VALVE_SOLENOID.inrushAmps, masterAmps)),
+        holdingVAC: round1(solenoidVAC(route.lengthFt, gauge, common, VALVE_SOLENOID.holdingAmps, masterAmps)),
+      });
+    }
+    if (runs.length === routes.length) return { common, runs };
+  }
+
+  const longest = routes.reduce((a, b) => b.lengthFt > a.lengthFt ? b : a);
+  throw new Error(
+    `Control wire to ${longest.valveId} runs ${longest.lengthFt} ft; even ${WIRE_GAUGES[WIRE_GAUGES.length - 1].awg} AWG leaves less than ` +
+    `${minSolenoidVAC} VAC at the solenoid. Use a two-wire decoder system or a satellite controller closer to the valves.`
+  );
+}
+
+// Out on the zone conductor and back on the common, which may carry other solenoids too
+function solenoidVAC(lengthFt: number, zone: WireGaugeSpec, common: WireGaugeSpec, amps: number, otherCommonAmps: number): number {
+  const dropV = (amps * zone.ohmsPer1000Ft + (amps + otherCommonAmps) * common.ohmsPer1000Ft) * lengthFt / 1000;
+  return DESIGN_RULES.wiring.controllerOutputVAC - dropV;
+}
+
+// Spares to each valve box, as heavy as the heaviest zone conductor landing there
+function spareWires(runs: WireRun[], routing: RoutingResult): SpareWires[] {
+  const spares: SpareWires[] = [];
+  for (const run of runs) {
+    const valve = routing.valves.find(v => v.id === run.valveId)!;
+    if (valve.type !== 'zone') continue;
+    const box = spares.find(s => sharesBox(routing.valves.find(v => v.id === s.valveIds[0])!, valve));
+    if (box) {
+      box.valveIds.push(valve.id);
+      box.gaugeAWG = Math.min(box.gaugeAWG, run.gaugeAWG);
+      box.lengthFt = Math.max(box.lengthFt, run.lengthFt);
+    } else {
+      const site = routing.valveBoxes.find(b => b.id === valve.boxId) ?? valve;
+      spares.push({
+        valveIds: [valve.id],
+        x: site.x,
+        y: site.y,
+        count: DESIGN_RULES.wiring.sparesPerManifold,
+        gaugeAWG: run.gaugeAWG,
+        lengthFt: run.lengthFt,
+      });
+    }
+  }
+  return spares;
+}
+
+// Same valve box, or close enough to share one where the valves have no box
+export function sharesBox(a: RoutingResult['valves'][0], b: RoutingResult['valves'][0]): boolean {
+  if (a.boxId || b.boxId) return a.boxId === b.boxId;
+  return distance(a, b) <= MANIFOLD_TOLERANCE_FT;
+}
+
+// ============================================================================
+// TRENCH NETWORK
+// ============================================================================
+
+interface TrenchNetwork {
+  nodes: SiteFeetPoint[]; // node 0 is the controller
+  adjacency: number[][];
+}
+
+// Mainline trenches plus the controller's lead-in, split where the lead-in joins
+function trenchNetwork(siteAnalysis: SiteAnalysis, routing: RoutingResult, controller: SiteFeetPoint): TrenchNetwork {
+  const network: TrenchNetwork = { nodes: [controller], adjacency: [[]] };
+  const nodeAt = (pt: SiteFeetPoint): number => {
+    const idx = network.nodes.findIndex(n => distance(n, pt) <= NODE_TOLERANCE_FT);
+    if (idx >= 0) return idx;
+    network.nodes.push({ x: pt.x, y: pt.y });
+    network.adjacency.push([]);
+    return network.nodes.length - 1;
+  };
+  const link = (a: SiteFeetPoint, b: SiteFeetPoint) => {
+    const i = nodeAt(a), j = nodeAt(b);
+    if (i === j) return;
+    network.adjacency[i].push(j);
+    network.adjacency[j].push(i);
+  };
+
+  const trunk: Segment[] = routing.pipes
+    .filter(p => p.type === 'mainline')
+    .map(p => [{ x: p.startX, y: p.startY }, { x: p.endX, y: p.endY }]);
+  if (trunk.length === 0) return network;
+
+  const leadIn = routeToNetwork(buildRoutingGrid(siteAnalysis), controller, trunk);
+  const joint = leadIn[leadIn.length - 1];
+  const host = trunk.reduce((best, s) => distanceToSegment(joint, s[0], s[1]) < distanceToSegment(joint, best[0], best[1]) ? s : best);
+  for (const segment of trunk) {
+    if (segment === host) {
+      link(segment[0], joint);
+      link(joint, segment[1]);
+    } else {
+      link(segment[0], segment[1]);
+    }
+  }
+  for (let i = 1; i < leadIn.length; i++) link(leadIn[i - 1], leadIn[i]);
+  return network;
+}
+
+// Breadth-first parents from the root; -1 where unreachable
+function spanFrom(network: TrenchNetwork, root: number): number[] {
+  const parent = network.nodes.map(() => -1);
+  const visited = new Set([root]);
+  const queue = [root];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const next of network.adjacency[node]) {
+      if (visited.has(next)) continue;
+      visited.add(next);
+      parent[next] = node;
+      queue.push(next);
+    }
+  }
+  return parent;
+}
+
+// Nearest reachable node to a point
+function nodeNear(network: TrenchNetwork, pt: SiteFeetPoint): number {
+  return network.nodes.reduce((best, n, i) => distance(n, pt) < distance(network.nodes[best], pt) ? i : best, 0);
+}
+
+// Controller to the point through the network, finishing with a straight run off it
+function pathTo(network: TrenchNetwork, parent: number[], pt: SiteFeetPoint): SiteFeetPoint[] {
+  const path: SiteFeetPoint[] = [];
+  let node = nodeNear(network, pt);
+  if (node > 0 && parent[node] < 0) node = 0;
+  for (; node >= 0; node = parent[node]) path.unshift(network.nodes[node]);
+  if (distance(path[path.length - 1], pt) > NODE_TOLERANCE_FT) path.push({ x: pt.x, y: pt.y });
+  return path;
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
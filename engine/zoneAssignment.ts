@@ -1,62 +1,165 @@
-import { HeadPlacement, Zone } from '../types';
-import { getMaxGPMForLateral, getLateralSizeIn } from '../data/designRules';
+import { HeadPlacement, Zone, IrrigableZone, SiteAnalysis } from '../types';
+import { DESIGN_RULES, getMaxGPMForLateral, getLateralSizeIn } from '../data/designRules';
+import { getRequiredSeparationRules } from '../data/irrigationKnowledge';
 import { selectValveForZone } from '../data/materials';
 import { getZoneColor } from '../data/zoneColors';
+import { Point, centroid, distance } from '../utils/geometry';
+import { groupManifolds } from './manifoldPlanning';
 
-export function assignZones(heads: HeadPlacement[]): { zones: Zone[]; updatedHeads: HeadPlacement[] } {
-  const groups = groupHeadsByType(heads);
-  const zones: Zone[] = [];
-  let zoneNumber = 1;
+// Heads within this many throw radii of a zone member can join it
+const ADJACENCY_FACTOR = 2;
+
+// How each required ZONE_SEPARATION_RULES entry splits heads; heads share a valve only when every part matches
+const SEPARATION_KEYS: Record<string, (head: HeadPlacement, area: IrrigableZone | undefined) => string> = {
+  'head-type-separation': head => head.type,
+  'turf-vs-beds': (_, area) => area && ['bed', 'planter', 'tree-ring'].includes(area.type) ? 'bed' : 'turf',
+  'full-sun-vs-shade': (_, area) => area ? area.exposure : 'full-sun',
+  'steep-slopes': (_, area) => area && isSteepSlope(area.slopeRatio) ? 'steep' : 'flat',
+};
+
+export function assignZones(
+  heads: HeadPlacement[],
+  siteAnalysis: SiteAnalysis,
+  origin: Point,
+  availableGPM: number
+): { zones: Zone[]; updatedHeads: HeadPlacement[] } {
+  const areas = [...siteAnalysis.turfZones, ...siteAnalysis.bedZones, ...siteAnalysis.narrowStrips];
+  const groups = groupHeadsByHydrozone(heads, areas);
+  const clusters: ZoneCluster[] = [];
   const updatedHeads = [...heads];
 
-  for (const [groupKey, groupHeads] of Object.entries(groups)) {
+  for (const groupHeads of Object.values(groups)) {
     const headType = groupHeads[0].type;
     if (headType === 'quick-coupler') continue;
+    const exposure = areas.find(a => a.id === groupHeads[0].sourceAreaId)?.exposure ?? 'full-sun';
 
     const lateralSize = getLateralSizeIn(headType as any);
-    const maxGPM = getMaxGPMForLateral(lateralSize);
-
-    let currentZoneHeads: HeadPlacement[] = [];
-    let currentGPM = 0;
-
-    for (const head of groupHeads) {
-      if (currentGPM + head.gpm > maxGPM && currentZoneHeads.length > 0) {
-        const zone = createZone(zoneNumber, currentZoneHeads, headType as any);
-        zones.push(zone);
-        assignHeadsToZone(updatedHeads, currentZoneHeads, zone.id);
-        zoneNumber++;
-        currentZoneHeads = [];
-        currentGPM = 0;
-      }
-      currentZoneHeads.push(head);
-      currentGPM += head.gpm;
+    const maxGPM = Math.min(getMaxGPMForLateral(lateralSize), availableGPM);
+
+    const oversized = groupHeads.find(h => h.gpm > availableGPM);
+    if (oversized) {
+      throw new Error(
+        `${oversized.model} head ${oversized.id} needs ${oversized.gpm.toFixed(1)} GPM but the water supply ` +
+        `only provides ${availableGPM} GPM per zone. Increase the service size or split the area.`
+      );
     }
 
-    if (currentZoneHeads.length > 0) {
-      const zone = createZone(zoneNumber, currentZoneHeads, headType as any);
-      zones.push(zone);
-      assignHeadsToZone(updatedHeads, currentZoneHeads, zone.id);
-      zoneNumber++;
+    for (const clusterHeads of growClusters(groupHeads, maxGPM, origin)) {
+      clusters.push({ heads: clusterHeads, headType: headType as ZoneCluster['headType'], exposure });
     }
   }
 
+  const zones = orderByWalk(clusters, origin).map((cluster, i) => {
+    const zone = createZone(i + 1, cluster.heads, cluster.headType, cluster.exposure);
+    assignHeadsToZone(updatedHeads, cluster.heads, zone.id);
+    return zone;
+  });
+
   return { zones, updatedHeads };
 }
 
-function groupHeadsByType(heads: HeadPlacement[]): Record<string, HeadPlacement[]> {
+interface ZoneCluster {
+  heads: HeadPlacement[];
+  headType: Zone['headType'];
+  exposure: string;
+}
+
+/**
+ * Region growing: seed each zone with the unassigned head farthest from the
+ * origin, then keep adding the adjacent head closest to the zone's centroid
+ * until nothing else fits under the GPM ceiling.
+ */
+function growClusters(heads: HeadPlacement[], maxGPM: number, origin: Point): HeadPlacement[][] {
+  const remaining = [...heads];
+  const clusters: HeadPlacement[][] = [];
+
+  while (remaining.length > 0) {
+    const seed = remaining.reduce((far, h) => distance(h, origin) > distance(far, origin) ? h : far);
+    remaining.splice(remaining.indexOf(seed), 1);
+    const cluster = [seed];
+    let gpm = seed.gpm;
+
+    while (true) {
+      const center = centroid(cluster);
+      let best: HeadPlacement | null = null;
+      let bestDist = Infinity;
+      for (const h of remaining) {
+        if (gpm + h.gpm > maxGPM) continue;
+        if (!cluster.some(m => isAdjacent(h, m))) continue;
+        const d = distance(h, center);
+        if (d < bestDist) {
+          bestDist = d;
+          best = h;
+        }
+      }
+      if (!best) break;
+      remaining.splice(remaining.indexOf(best), 1);
+      cluster.push(best);
+      gpm += best.gpm;
+    }
+
+    clusters.push(cluster);
+  }
+
+  return clusters;
+}
+
+// Heads are neighbours when their throws could reach each other; drip has no throw and always joins
+function isAdjacent(a: HeadPlacement, b: HeadPlacement): boolean {
+  const reach = Math.max(a.radiusFt, b.radiusFt);
+  return reach === 0 || distance(a, b) <= reach * ADJACENCY_FACTOR;
+}
+
+/**
+ * Zone numbers follow the route a crew would take: a nearest-neighbour walk
+ * from the origin to each valve manifold, then at each manifold its zones
+ * nearest first from where the box is sited.
+ */
+function orderByWalk(clusters: ZoneCluster[], origin: Point): ZoneCluster[] {
+  const manifolds = groupManifolds(clusters.map(c => c.heads))
+    .map(({ members, center }) => ({ zones: members.map(i => clusters[i]), center }));
+  return walkFrom(origin, manifolds, m => m.center)
+    .flatMap(m => walkFrom(m.center, m.zones, c => centroid(c.heads)));
+}
+
+function walkFrom<T>(origin: Point, items: T[], centerOf: (item: T) => Point): T[] {
+  const remaining = items.map(item => ({ item, center: centerOf(item) }));
+  const ordered: T[] = [];
+  let position = origin;
+  while (remaining.length > 0) {
+    const next = remaining.reduce((near, c) => distance(c.center, position) < distance(near.center, position) ? c : near);
+    remaining.splice(remaining.indexOf(next), 1);
+    ordered.push(next.item);
+    position = next.center;
+  }
+  return ordered;
+}
+
+function groupHeadsByHydrozone(heads: HeadPlacement[], areas: IrrigableZone[]): Record<string, HeadPlacement[]> {
+  const rules = getRequiredSeparationRules().filter(r => SEPARATION_KEYS[r.rule]);
   const groups: Record<string, HeadPlacement[]> = {};
   for (const head of heads) {
-    const key = head.type;
+    const area = areas.find(a => a.id === head.sourceAreaId);
+    const key = rules.map(r => SEPARATION_KEYS[r.rule](head, area)).join('|');
     if (!groups[key]) groups[key] = [];
     groups[key].push(head);
   }
   return groups;
 }
 
+// Slope ratios are run:rise, e.g. '3:1'
+function isSteepSlope(slopeRatio: string | null): boolean {
+  if (!slopeRatio) return false;
+  const [run, rise] = slopeRatio.split(':').map(Number);
+  if (!run || !rise) return false;
+  return run / rise < DESIGN_RULES.zoneSeparation.steepSlopeRun;
+}
+
 function createZone(
   number: number,
   heads: HeadPlacement[],
-  headType: 'rotor' | 'spray' | 'rotary-nozzle' | 'drip' | 'strip'
+  headType: 'rotor' | 'spray' | 'rotary-nozzle' | 'drip' | 'strip',
+  exposure: string
 ): Zone {
   const totalGPM = heads.reduce((sum, h) => sum + h.gpm, 0);
   const totalArea = estimateZoneArea(heads);
@@ -68,7 +171,7 @@ function createZone(
     id: `Z-${number}`,
     number,
     headType,
-    exposure: 'full-sun',
+    exposure,
     heads: heads.map(h => h.id),
     totalGPM: Math.round(totalGPM * 10) / 10,
     precipRateInPerHr: Math.round(precipRate * 100) / 100,
@@ -0,0 +1,66 @@
+import { CoverageReport, CoverageCell } from '../types';
+import { SheetTransform, sheetX, sheetY, sheetLength } from '../utils/coordinates';
+
+// Upper bound (in/hr) of each color band, light to dark
+const PRECIP_BANDS: Array<{ maxInPerHr: number; color: string }> = [
+  { maxInPerHr: 0.25, color: '#E0F2FE' },
+  { maxInPerHr: 0.5, color: '#BAE6FD' },
+  { maxInPerHr: 0.75, color: '#7DD3FC' },
+  { maxInPerHr: 1.0, color: '#38BDF8' },
+  { maxInPerHr: 1.5, color: '#0284C7' },
+  { maxInPerHr: 2.0, color: '#0369A1' },
+  { maxInPerHr: Infinity, color: '#0C4A6E' },
+];
+const DRY_COLOR = '#DC2626';
+const WET_COLOR = '#7C3AED';
+
+export function precipitationColor(cell: CoverageCell): string {
+  if (cell.status === 'dry') return DRY_COLOR;
+  if (cell.status === 'wet') return WET_COLOR;
+  return PRECIP_BANDS.find(b => cell.precipInPerHr <= b.maxInPerHr)!.color;
+}
+
+/**
+ * Coverage cells as filled rects. Neighbouring cells in a row that share a
+ * color are merged into one rect to keep the sheet SVG small.
+ */
+export function renderHeatmapCells(coverage: CoverageReport, transform: SheetTransform): string {
+  const rects: string[] = [];
+  for (const area of coverage.areas) {
+    const size = area.cellSizeFt;
+    const runs: Array<{ x: number; y: number; width: number; color: string }> = [];
+    for (const cell of area.cells) {
+      const color = precipitationColor(cell);
+      const left = cell.x - size / 2;
+      const top = cell.y - size / 2;
+      const last = runs[runs.length - 1];
+      if (last && last.color === color && Math.abs(last.y - top) < size * 0.1 && Math.abs(last.x + last.width - left) < size * 0.1) {
+        last.width += size;
+      } else {
+        runs.push({ x: left, y: top, width: size, color });
+      }
+    }
+    for (const run of runs) {
+      rects.push(`<rect x="${sheetX(transform, run.x)}" y="${sheetY(transform, run.y)}" width="${sheetLength(transform, run.width)}" height="${sheetLength(transform, size)}" fill="${run.color}"/>`);
+    }
+  }
+  return `<g class="coverage-heatmap" fill-opacity="0.75" shape-rendering="crispEdges">${rects.join('')}</g>`;
+}
+
+export function renderHeatmapLegend(x: number, y: number): string {
+  let svg = `<text x="${x}" y="${y - 4}" font-size="8" fill="#000" font-weight="bold" font-family="Arial">PRECIPITATION (IN/HR)</text>`;
+  let lower = 0;
+  PRECIP_BANDS.forEach((band, i) => {
+    const ry = y + i * 14;
+    const label = band.maxInPerHr === Infinity ? `> ${lower.toFixed(2)}` : `${lower.toFixed(2)} - ${band.maxInPerHr.toFixed(2)}`;
+    svg += `<rect x="${x}" y="${ry}" width="16" height="10" fill="${band.color}" stroke="#000" stroke-width="0.3"/>`;
+    svg += `<text x="${x + 22}" y="${ry + 8}" font-size="6" fill="#000" font-family="Arial">${label}</text>`;
+    lower = band.maxInPerHr;
+  });
+  const extraY = y + PRECIP_BANDS.length * 14 + 4;
+  svg += `<rect x="${x}" y="${extraY}" width="16" height="10" fill="${DRY_COLOR}" stroke="#000" stroke-width="0.3"/>`;
+  svg += `<text x="${x + 22}" y="${extraY + 8}" font-size="6" fill="#000" font-family="Arial">Dry (under half the area average)</text>`;
+  svg += `<rect x="${x}" y="${extraY + 14}" width="16" height="10" fill="${WET_COLOR}" stroke="#000" stroke-width="0.3"/>`;
+  svg += `<text x="${x + 22}" y="${extraY + 22}" font-size="6" fill="#000" font-family="Arial">Overwatered (over 1.5x the area average)</text>`;
+  return svg;
+}
@@ -0,0 +1,183 @@
+import { IrrigationDesign, ProjectInput, GradeSource } from '../types';
+import { VELOCITY_LIMITS } from '../data/hydraulics';
+import { DESIGN_RULES } from '../data/designRules';
+import { renderBorder } from './border';
+import { renderTitleBlock } from './titleBlock';
+
+const GRADE_SOURCE_LABELS: Record<GradeSource, string> = {
+  'spot-elevations': 'interpolated from spot elevations',
+  'slope-indicators': 'estimated from slope indicators',
+  'flat': 'level site assumed',
+};
+
+const CALC_NOTES = [
+  'Each zone is calculated running alone, at its design flow.',
+  'Pipe friction by Hazen-Williams, C = 150 for PVC, using inside diameters for each pipe size.',
+  'Fittings and valves are added as equivalent pipe lengths; one tee per segment, one swing joint per head.',
+  'Meter and backflow preventer losses are taken at the service size from the device loss tables.',
+  'A booster adds its rated boost after the backflow preventer; a valve regulator (PRV) holds the valve outlet at its set pressure.',
+  'Critical head: the head with the least pressure above its nozzle minimum.',
+  'Elevation change from the POC at 0.433 PSI per foot: gained downhill, lost uphill.',
+  `Velocity limit ${VELOCITY_LIMITS.maxVelocityFPS} FPS; segments above ${VELOCITY_LIMITS.warningVelocityFPS} FPS are flagged for review.`,
+];
+
+export function generateHydraulicSheet(
+  design: IrrigationDesign,
+  projectInput: ProjectInput,
+  scaleLabel: string,
+  date: string,
+  svgWidth: number,
+  svgHeight: number
+): string {
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}">`;
+  svg += `<rect width="${svgWidth}" height="${svgHeight}" fill="#fff"/>`;
+  svg += renderBorder(svgWidth, svgHeight, scaleLabel, 0);
+
+  const tbX = svgWidth - 394;
+  svg += renderTitleBlock(
+    tbX, 48, svgHeight - 96,
+    projectInput.projectName, 'HYDRAULIC CALCULATIONS', 'IR-5',
+    'N/A', date, design.totalSystemGPM, design.totalZones
+  );
+
+  const x = 60;
+  let y = 80;
+  svg += `<text x="${x}" y="${y}" font-size="18" fill="#000" font-weight="bold" font-family="Arial">HYDRAULIC CALCULATIONS - CRITICAL PATH BY ZONE</text>`;
+
+  // Supply summary
+  const report = design.hydraulics;
+  const supply = design.supply;
+  const checkValves = design.heads.filter(h => h.checkValve).length;
+  y += 30;
+  const summary = [
+    `Static pressure at POC: ${projectInput.staticPressurePSI} PSI`,
+    `Water supply: ${projectInput.waterSupplySize}" service / meter`,
+    supply ? `Available flow per zone: ${supply.availableGPM} GPM (limited by ${supply.limitedBy})` : '',
+    report ? `Pressure after meter, backflow preventer and booster: ${report.supplyPSI} PSI` : '',
+    design.pressure?.booster
+      ? `Booster pump: ${design.pressure.booster.manufacturer} ${design.pressure.booster.model}, ${design.pressure.booster.requiredGPM} GPM at ${design.pressure.booster.requiredTDHFt} ft TDH`
+      : '',
+    `Elevations: ${GRADE_SOURCE_LABELS[design.gradeSource || 'flat']}`,
+    design.flowMonitoring
+      ? `Flow sensor: ${design.flowMonitoring.sensor.manufacturer} ${design.flowMonitoring.sensor.model} (${design.flowMonitoring.sensor.sizeIn}"), reads ${design.flowMonitoring.sensor.minGPM}-${design.flowMonitoring.sensor.maxGPM} GPM`
+      : '',
+    checkValves > 0 ? `Check valves: ${checkValves} head(s) more than ${DESIGN_RULES.hydraulics.checkValveDropFt} ft below their valve` : '',
+  ].filter(Boolean);
+  for (const line of summary) {
+    svg += `<text x="${x}" y="${y}" font-size="9" fill="#333" font-family="Arial">${escapeXml(line)}</text>`;
+    y += 14;
+  }
+
+  // Critical path table
+  y += 16;
+  const headers = ['Zone', 'Flow (GPM)', 'Static', 'Meter', 'Backflow', 'Booster', 'Mainline', 'Valves', 'Regulator', 'Lateral', 'Elevation', 'Critical Head', 'At Head', 'Nozzle Min', 'Max Vel. (FPS)', 'Result'];
+  const colWidths = [50, 60, 50, 50, 55, 50, 55, 50, 55, 50, 60, 70, 55, 60, 70, 60];
+  const totalW = colWidths.reduce((a, b) => a + b, 0);
+  const rowH = 20;
+
+  svg += `<rect x="${x}" y="${y}" width="${totalW}" height="${rowH}" fill="#1F2937" stroke="#000" stroke-width="1"/>`;
+  let cx = x;
+  for (let i = 0; i < headers.length; i++) {
+    svg += `<text x="${cx + colWidths[i]/2}" y="${y + 13}" font-size="7.5" text-anchor="middle" fill="#fff" font-weight="bold" font-family="Arial">${headers[i]}</text>`;
+    cx += colWidths[i];
+  }
+
+  const zones = report ? report.zones : [];
+  for (let zi = 0; zi < zones.length; zi++) {
+    const zh = zones[zi];
+    const zone = design.zones.find(z => z.id === zh.zoneId);
+    const path = zh.criticalPath;
+    const ry = y + rowH + zi * rowH;
+    const velocityOk = zh.maxVelocityFPS <= VELOCITY_LIMITS.maxVelocityFPS;
+    const velocityHigh = zh.maxVelocityFPS > VELOCITY_LIMITS.warningVelocityFPS;
+    const result = !zh.adequate ? 'LOW PSI' : !velocityOk ? 'HIGH VEL' : 'OK';
+    svg += `<rect x="${x}" y="${ry}" width="${totalW}" height="${rowH}" fill="${result === 'OK' ? (zi % 2 === 0 ? '#fff' : '#F3F4F6') : '#FEF3C7'}" stroke="#D1D5DB" stroke-width="0.5"/>`;
+
+    const vals = [
+      zone ? `Zone ${zone.number}` : zh.zoneId,
+      zh.flowGPM.toFixed(1),
+      `${projectInput.staticPressurePSI}`,
+      `-${path.meterLossPSI.toFixed(1)}`,
+      `-${path.backflowLossPSI.toFixed(1)}`,
+      path.boosterGainPSI > 0 ? `+${path.boosterGainPSI.toFixed(1)}` : '-',
+      `-${path.mainlineLossPSI.toFixed(1)}`,
+      `-${path.valveLossPSI.toFixed(1)}`,
+      path.regulatorLossPSI > 0 ? `-${path.regulatorLossPSI.toFixed(1)}` : '-',
+      `-${path.lateralLossPSI.toFixed(1)}`,
+      `${path.elevationPSI >= 0 ? '+' : ''}${path.elevationPSI.toFixed(1)}`,
+      zh.criticalHeadId || '-',
+      `${zh.criticalHeadPSI.toFixed(1)} PSI`,
+      `${zh.minimumPSI} PSI`,
+      `${zh.maxVelocityFPS.toFixed(2)}${velocityHigh ? ' *' : ''}`,
+      result,
+    ];
+    cx = x;
+    for (let i = 0; i < vals.length; i++) {
+      const bold = i === vals.length - 1 || i === 12 ? ' font-weight="bold"' : '';
+      svg += `<text x="${cx + colWidths[i]/2}" y="${ry + 13}" font-size="7.5" text-anchor="middle" fill="#000" font-family="Arial"${bold}>${escapeXml(vals[i])}</text>`;
+      cx += colWidths[i];
+    }
+  }
+
+  // Method notes
+  let ny = y + rowH * (zones.length + 1) + 40;
+  svg += `<text x="${x}" y="${ny}" font-size="10" fill="#000" font-weight="bold" font-family="Arial">CALCULATION NOTES</text>`;
+  for (let i = 0; i < CALC_NOTES.length; i++) {
+    ny += 14;
+    svg += `<text x="${x}" y="${ny}" font-size="8" fill="#333" font-family="Arial">${i + 1}. ${escapeXml(CALC_NOTES[i])}</text>`;
+  }
+  ny += 14;
+  svg += `<text x="${x}" y="${ny}" font-size="8" fill="#333" font-family="Arial">* Velocity above ${VELOCITY_LIMITS.warningVelocityFPS} FPS warning threshold.</text>`;
+
+  if (design.flowMonitoring) {
+    svg += renderFlowAlarms(design, x, ny + 40);
+  }
+
+  svg += '</svg>';
+  return svg;
+}
+
+function renderFlowAlarms(design: IrrigationDesign, x: number, y: number): string {
+  const monitoring = design.flowMonitoring!;
+  const headers = ['Zone', 'Station', 'Expected (GPM)', 'Low Alarm (GPM)', 'High Alarm (GPM)'];
+  const colWidths = [50, 50, 80, 80, 80];
+  const totalW = colWidths.reduce((a, b) => a + b, 0);
+  const rowH = 20;
+  let svg = `<text x="${x}" y="${y - 8}" font-size="10" fill="#000" font-weight="bold" font-family="Arial">FLOW MONITORING - ALARM LIMITS BY ZONE</text>`;
+
+  svg += `<rect x="${x}" y="${y}" width="${totalW}" height="${rowH}" fill="#1F2937" stroke="#000" stroke-width="1"/>`;
+  let cx = x;
+  for (let i = 0; i < headers.length; i++) {
+    svg += `<text x="${cx + colWidths[i]/2}" y="${y + 13}" font-size="7.5" text-anchor="middle" fill="#fff" font-weight="bold" font-family="Arial">${headers[i]}</text>`;
+    cx += colWidths[i];
+  }
+
+  monitoring.zones.forEach((alarm, zi) => {
+    const zone = design.zones.find(z => z.id === alarm.zoneId);
+    const ry = y + rowH + zi * rowH;
+    svg += `<rect x="${x}" y="${ry}" width="${totalW}" height="${rowH}" fill="${alarm.belowSensorRange ? '#FEF3C7' : zi % 2 === 0 ? '#fff' : '#F3F4F6'}" stroke="#D1D5DB" stroke-width="0.5"/>`;
+    const vals = [
+      zone ? `Zone ${zone.number}` : alarm.zoneId,
+      zone?.station !== undefined ? String(zone.station) : '-',
+      alarm.expectedGPM.toFixed(1),
+      `${alarm.lowAlarmGPM.toFixed(1)}${alarm.belowSensorRange ? ' *' : ''}`,
+      alarm.highAlarmGPM.toFixed(1),
+    ];
+    cx = x;
+    for (let i = 0; i < vals.length; i++) {
+      svg += `<text x="${cx + colWidths[i]/2}" y="${ry + 13}" font-size="7.5" text-anchor="middle" fill="#000" font-family="Arial">${escapeXml(vals[i])}</text>`;
+      cx += colWidths[i];
+    }
+  });
+
+  let ny = y + rowH * (monitoring.zones.length + 1) + 6;
+  for (const note of monitoring.notes) {
+    ny += 12;
+    svg += `<text x="${x}" y="${ny}" font-size="8" fill="#333" font-family="Arial">${escapeXml(note)}</text>`;
+  }
+  return svg;
+}
+
+function escapeXml(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -35,16 +35,52 @@ export function renderLegend(design: IrrigationDesign, x: number, y: number): st
     description: 'Zone Valve - Rain Bird PEB Series',
   });
 
+  if (design.valveBoxes && design.valveBoxes.length > 0) {
+    items.push({
+      symbol: `<rect x="${x+10}" y="${y+items.length*22+26}" width="10" height="8" fill="#ccc" stroke="#000" stroke-width="0.5"/>`,
+      label: 'VB',
+      description: 'Valve Box - Carson 1419-12 (up to 4) or 1730-12 (up to 6), ID per zone schedule',
+    });
+  }
+
   items.push({
     symbol: `<rect x="${x+5}" y="${y+items.length*22+26}" width="20" height="8" fill="#fff" stroke="#000" stroke-width="0.8"/><text x="${x+15}" y="${y+items.length*22+33}" font-size="5" text-anchor="middle" fill="#000">RPZ</text>`,
     label: 'RPZ',
     description: 'Backflow Preventer - Watts 009M2-QT',
   });
 
+  const regulator = design.pressure?.regulators[0];
+  if (regulator) {
+    items.push({
+      symbol: `<rect x="${x+5}" y="${y+items.length*22+26}" width="20" height="8" fill="#fff" stroke="#000" stroke-width="0.6"/><text x="${x+15}" y="${y+items.length*22+32}" font-size="4.5" text-anchor="middle" fill="#000">PRV</text>`,
+      label: 'PRV',
+      description: `Valve Pressure Regulator - Rain Bird ${regulator.model}, set PSI shown`,
+    });
+  }
+
+  const booster = design.pressure?.booster;
+  if (booster) {
+    items.push({
+      symbol: `<circle cx="${x+15}" cy="${y+items.length*22+30}" r="5" fill="#fff" stroke="#000" stroke-width="0.8"/><polygon points="${x+13},${y+items.length*22+27} ${x+18},${y+items.length*22+30} ${x+13},${y+items.length*22+33}" fill="#000"/>`,
+      label: 'BP',
+      description: `Booster Pump - ${booster.manufacturer} ${booster.model}, ${booster.horsepower} HP`,
+    });
+  }
+
+  const sensor = design.flowMonitoring?.sensor;
+  if (sensor) {
+    items.push({
+      symbol: `<circle cx="${x+15}" cy="${y+items.length*22+30}" r="5" fill="#fff" stroke="#1E3A5F" stroke-width="1"/><text x="${x+15}" y="${y+items.length*22+31.6}" font-size="4.5" text-anchor="middle" fill="#1E3A5F" font-weight="bold">FS</text>`,
+      label: 'FS',
+      description: `Flow Sensor - ${sensor.manufacturer} ${sensor.model}, ${sensor.minGPM}-${sensor.maxGPM} GPM`,
+    });
+  }
+
+  const ctrlSpec = CONTROLLERS.find(c => c.model === design.controller.model) ?? CONTROLLERS[0];
   items.push({
     symbol: `<rect x="${x+7}" y="${y+items.length*22+26}" width="16" height="10" fill="#fff" stroke="#000" stroke-width="0.8"/>`,
     label: 'CTRL',
-    description: 'Controller - Rain Bird ESP-LXME2',
+    description: `Controller - ${ctrlSpec.manufacturer} ${ctrlSpec.model}`,
   });
 
   items.push({
@@ -59,6 +95,54 @@ export function renderLegend(design: IrrigationDesign, x: number, y: number): st
     description: 'Lateral Pipe - Class 200 PVC',
   });
 
+  if (design.wiring) {
+    items.push({
+      symbol: `<line x1="${x+5}" y1="${y+items.length*22+30}" x2="${x+25}" y2="${y+items.length*22+30}" stroke="#B91C1C" stroke-width="0.8" stroke-dasharray="4 2"/>`,
+      label: 'W',
+      description: `Control Wire - ${[...new Set(design.wiring.commons.map(c => c.gaugeAWG))].join('/')} AWG common, zone gauge per wire schedule`,
+    });
+    if (design.wiring.spliceBoxes.length > 0) {
+      items.push({
+        symbol: `<circle cx="${x+15}" cy="${y+items.length*22+30}" r="4" fill="#fff" stroke="#000" stroke-width="0.8"/><text x="${x+15}" y="${y+items.length*22+31.6}" font-size="3.5" text-anchor="middle" fill="#000">SB</text>`,
+        label: 'SB',
+        description: 'Splice Box - Carson 910-12, common wire splices',
+      });
+    }
+  }
+
+  if (design.twoWire) {
+    items.push({
+      symbol: `<line x1="${x+5}" y1="${y+items.length*22+30}" x2="${x+25}" y2="${y+items.length*22+30}" stroke="#B91C1C" stroke-width="1" stroke-dasharray="6 2 1 2"/>`,
+      label: '2W',
+      description: `Two-Wire Path - ${design.twoWire.cable.model}, ${design.twoWire.cable.gaugeAWG} AWG`,
+    });
+    items.push({
+      symbol: `<polygon points="${x+15},${y+items.length*22+26} ${x+19},${y+items.length*22+30} ${x+15},${y+items.length*22+34} ${x+11},${y+items.length*22+30}" fill="#fff" stroke="#B91C1C" stroke-width="0.8"/>`,
+      label: 'D',
+      description: 'Field Decoder - Rain Bird FD series, per address table',
+    });
+    items.push({
+      symbol: `<polygon points="${x+11.5},${y+items.length*22+26} ${x+18.5},${y+items.length*22+26} ${x+15},${y+items.length*22+31}" fill="#FDE047" stroke="#000" stroke-width="0.6"/><line x1="${x+12}" y1="${y+items.length*22+34}" x2="${x+18}" y2="${y+items.length*22+34}" stroke="#000" stroke-width="0.8"/>`,
+      label: 'LSP',
+      description: 'Surge Protector - Rain Bird LSP-1TURF, grounded',
+    });
+    if (design.twoWire.spliceBoxes.length > 0) {
+      items.push({
+        symbol: `<circle cx="${x+15}" cy="${y+items.length*22+30}" r="4" fill="#fff" stroke="#000" stroke-width="0.8"/><text x="${x+15}" y="${y+items.length*22+31.6}" font-size="3.5" text-anchor="middle" fill="#000">SB</text>`,
+        label: 'SB',
+        description: 'Splice Box - Carson 910-12, two-wire path splices',
+      });
+    }
+  }
+
+  if (design.sleeves && design.sleeves.length > 0) {
+    items.push({
+      symbol: `<rect x="${x+5}" y="${y+items.length*22+26.5}" width="20" height="7" fill="none" stroke="#7C3AED" stroke-width="0.8"/><line x1="${x+5}" y1="${y+items.length*22+30}" x2="${x+25}" y2="${y+items.length*22+30}" stroke="#1E3A5F" stroke-width="1.5"/>`,
+      label: 'SLV',
+      description: 'Sleeve - Sch. 40 PVC, 2x pipe size, tag and size shown',
+    });
+  }
+
   const headerH = 22;
   const totalH = headerH + items.length * 22 + 10;
   const w = 280;
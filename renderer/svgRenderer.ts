@@ -1,12 +1,14 @@
 import { IrrigationDesign, ProjectInput, SiteAnalysis, PlanSheet } from '../types';
-import { calculateScale, feetToSvgUnits, getDrawingOrigin, getTitleBlockOrigin } from '../utils/scaling';
-import { headSymbol, coverageCircle, zoneValveSymbol, masterValveSymbol, rpzSymbol, controllerSymbol, pocSymbol, rainSensorSymbol, valveBoxSymbol } from './symbols';
+import { calculateScale, getDrawingOrigin, getTitleBlockOrigin } from '../utils/scaling';
+import { SheetTransform, createSheetTransform, sheetX, sheetY, sheetLength } from '../utils/coordinates';
+import { headSymbol, coverageCircle, zoneValveSymbol, masterValveSymbol, rpzSymbol, controllerSymbol, pocSymbol, rainSensorSymbol, valveBoxSymbol, boosterPumpSymbol, regulatorTag, sleeveSymbol, spliceBoxSymbol, spareWireTag, decoderSymbol, surgeArrestorSymbol, flowSensorSymbol } from './symbols';
 import { renderTitleBlock } from './titleBlock';
 import { renderLegend } from './legend';
 import { renderBorder } from './border';
 import { GENERAL_NOTES } from '../data/generalNotes';
-import { MAINLINE_COLOR } from '../data/zoneColors';
+import { MAINLINE_COLOR, CONTROL_WIRE_COLOR } from '../data/zoneColors';
 import { generateIR2, generateIR3 } from './detailSheets';
+import { renderHeatmapCells } from './heatmap';
 
 export function renderAllSheets(
   design: IrrigationDesign,
@@ -58,9 +60,10 @@ function renderIR1(
     layers.push(`<image href="${droneImageDataUrl}" x="${origin.x}" y="${origin.y}" width="${drawW}" height="${drawH}" opacity="0.3" preserveAspectRatio="xMidYMid slice"/>`);
   }
 
-  const toX = (ft: number) => origin.x + feetToSvgUnits(ft, pixelsPerFoot);
-  const toY = (ft: number) => origin.y + feetToSvgUnits(ft, pixelsPerFoot);
-  const toLen = (ft: number) => feetToSvgUnits(ft, pixelsPerFoot);
+  const transform = createSheetTransform(pixelsPerFoot, origin);
+  const toX = (ft: number) => sheetX(transform, ft);
+  const toY = (ft: number) => sheetY(transform, ft);
+  const toLen = (ft: number) => sheetLength(transform, ft);
 
   // Layer 3: Pipes
   for (const pipe of design.pipes) {
@@ -83,7 +86,7 @@ function renderIR1(
   for (const head of design.heads) {
     const zone = design.zones.find(z => z.id === head.zoneId);
     const color = zone?.color || '#000';
-    layers.push(headSymbol(toX(head.x), toY(head.y), head.type, head.arc, toLen(head.radiusFt), color));
+    layers.push(headSymbol(toX(head.x), toY(head.y), head.type, head.arc, toLen(head.radiusFt), color, head.rotation));
   }
 
   // Layer 6: Valves, controller, RPZ, POC
@@ -93,13 +96,19 @@ function renderIR1(
     } else {
       const zone = design.zones.find(z => z.id === valve.zoneId);
       layers.push(zoneValveSymbol(toX(valve.x), toY(valve.y), zone?.color || '#333'));
-      layers.push(valveBoxSymbol(toX(valve.x), toY(valve.y) + 10));
+      if (!valve.boxId) layers.push(valveBoxSymbol(toX(valve.x), toY(valve.y) + 10));
     }
   }
+  for (const box of design.valveBoxes || []) {
+    layers.push(valveBoxSymbol(toX(box.x), toY(box.y) + 10, box.id));
+  }
 
   layers.push(pocSymbol(toX(design.poc.x), toY(design.poc.y)));
   layers.push(rpzSymbol(toX(design.backflow.x), toY(design.backflow.y)));
-  layers.push(controllerSymbol(toX(design.controller.x), toY(design.controller.y)));
+  if (design.flowMonitoring) layers.push(flowSensorSymbol(toX(design.flowMonitoring.sensor.x), toY(design.flowMonitoring.sensor.y)));
+  for (const c of design.controllers?.length ? design.controllers : [design.controller]) {
+    layers.push(controllerSymbol(toX(c.x), toY(c.y)));
+  }
   layers.push(rainSensorSymbol(toX(design.rainSensor.x), toY(design.rainSensor.y)));
 
   // Layer 7: Zone schedule table
@@ -185,11 +194,8 @@ function escapeXml(str: string): string {
 // IRRIGATION LAYER RENDERER (Step 2 of 3-step pipeline)
 // ============================================================================
 
-export interface IrrigationLayerConfig {
-  pixelsPerFoot: number;
-  originX: number;
-  originY: number;
-}
+// Feet-to-sheet transform shared with the site plan layer on IR-1
+export type IrrigationLayerConfig = SheetTransform;
 
 /**
  * Render ONLY irrigation elements as a standalone SVG layer
@@ -206,7 +212,7 @@ export function renderIrrigationLayer(
   heightFt: number,
   config: IrrigationLayerConfig
 ): string {
-  const { pixelsPerFoot, originX, originY } = config;
+  const { pixelsPerFoot } = config;
 
   // Calculate SVG dimensions
   const svgWidth = widthFt * pixelsPerFoot;
@@ -215,9 +221,9 @@ export function renderIrrigationLayer(
   const layers: string[] = [];
 
   // Coordinate transformation functions
-  const toX = (ft: number) => originX + feetToSvgUnits(ft, pixelsPerFoot);
-  const toY = (ft: number) => originY + feetToSvgUnits(ft, pixelsPerFoot);
-  const toLen = (ft: number) => feetToSvgUnits(ft, pixelsPerFoot);
+  const toX = (ft: number) => sheetX(config, ft);
+  const toY = (ft: number) => sheetY(config, ft);
+  const toLen = (ft: number) => sheetLength(config, ft);
 
   // SVG header with transparent background
   layers.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}">`);
@@ -232,6 +238,23 @@ export function renderIrrigationLayer(
   }
   layers.push('</g>');
 
+  // Layer 1a: Control wire
+  layers.push('<g class="control-wire">');
+  for (const seg of design.wiring?.segments || []) {
+    layers.push(`<line x1="${toX(seg.startX)}" y1="${toY(seg.startY)}" x2="${toX(seg.endX)}" y2="${toY(seg.endY)}" stroke="${CONTROL_WIRE_COLOR}" stroke-width="0.6" stroke-dasharray="4 2"/>`);
+  }
+  for (const seg of design.twoWire?.segments || []) {
+    layers.push(`<line x1="${toX(seg.startX)}" y1="${toY(seg.startY)}" x2="${toX(seg.endX)}" y2="${toY(seg.endY)}" stroke="${CONTROL_WIRE_COLOR}" stroke-width="0.8" stroke-dasharray="6 2 1 2"/>`);
+  }
+  layers.push('</g>');
+
+  // Layer 1b: Sleeves under paving
+  layers.push('<g class="sleeves">');
+  for (const sleeve of design.sleeves || []) {
+    layers.push(sleeveSymbol(toX(sleeve.startX), toY(sleeve.startY), toX(sleeve.endX), toY(sleeve.endY), `${sleeve.id} ${sleeve.sizeIn}"`));
+  }
+  layers.push('</g>');
+
   // Layer 2: Coverage circles (semi-transparent)
   layers.push('<g class="coverage-circles">');
   for (const head of design.heads) {
@@ -248,7 +271,7 @@ export function renderIrrigationLayer(
   for (const head of design.heads) {
     const zone = design.zones.find(z => z.id === head.zoneId);
     const color = zone?.color || '#000';
-    layers.push(headSymbol(toX(head.x), toY(head.y), head.type, head.arc, toLen(head.radiusFt), color));
+    layers.push(headSymbol(toX(head.x), toY(head.y), head.type, head.arc, toLen(head.radiusFt), color, head.rotation));
   }
   layers.push('</g>');
 
@@ -260,16 +283,51 @@ export function renderIrrigationLayer(
     } else {
       const zone = design.zones.find(z => z.id === valve.zoneId);
       layers.push(zoneValveSymbol(toX(valve.x), toY(valve.y), zone?.color || '#333'));
-      layers.push(valveBoxSymbol(toX(valve.x), toY(valve.y) + 10));
+      if (!valve.boxId) layers.push(valveBoxSymbol(toX(valve.x), toY(valve.y) + 10));
+      const regulator = design.pressure?.regulators.find(r => r.valveId === valve.id);
+      if (regulator) layers.push(regulatorTag(toX(valve.x), toY(valve.y) - 11, regulator.setPSI));
     }
   }
+  for (const box of design.valveBoxes || []) {
+    layers.push(valveBoxSymbol(toX(box.x), toY(box.y) + 10, box.id));
+  }
   layers.push('</g>');
 
-  // Layer 5: Equipment (POC, backflow, controller, rain sensor)
+  // Layer 5: Equipment (splice boxes, POC, backflow, booster, controller, rain sensor)
   layers.push('<g class="equipment">');
+  for (const box of design.wiring?.spliceBoxes || []) {
+    layers.push(spliceBoxSymbol(toX(box.x), toY(box.y)));
+  }
+  for (const spare of design.wiring?.spares || []) {
+    layers.push(spareWireTag(toX(spare.x), toY(spare.y) + 21, spare.count, spare.gaugeAWG));
+  }
+
+  // Two-wire decoders, one tag per valve box, and surge arrestors
+  const twoWire = design.twoWire;
+  if (twoWire) {
+    for (const box of twoWire.spliceBoxes) {
+      layers.push(spliceBoxSymbol(toX(box.x), toY(box.y)));
+    }
+    const tagged = new Set<string>();
+    for (const decoder of twoWire.decoders) {
+      const key = `${decoder.x},${decoder.y}`;
+      if (tagged.has(key)) continue;
+      tagged.add(key);
+      const ids = twoWire.decoders.filter(d => d.x === decoder.x && d.y === decoder.y).map(d => d.id);
+      layers.push(decoderSymbol(toX(decoder.x) + 9, toY(decoder.y) + 10, ids.join(', ')));
+    }
+    for (const arrestor of twoWire.surgeArrestors) {
+      const dx = arrestor.decoderId ? -9 : 0;
+      layers.push(surgeArrestorSymbol(toX(arrestor.x) + dx, toY(arrestor.y) + (arrestor.decoderId ? 10 : 0)));
+    }
+  }
   layers.push(pocSymbol(toX(design.poc.x), toY(design.poc.y)));
   layers.push(rpzSymbol(toX(design.backflow.x), toY(design.backflow.y)));
-  layers.push(controllerSymbol(toX(design.controller.x), toY(design.controller.y)));
+  if (design.flowMonitoring) layers.push(flowSensorSymbol(toX(design.flowMonitoring.sensor.x), toY(design.flowMonitoring.sensor.y)));
+  if (design.pressure?.booster) layers.push(boosterPumpSymbol(toX(design.backflow.x), toY(design.backflow.y)));
+  for (const c of design.controllers?.length ? design.controllers : [design.controller]) {
+    layers.push(controllerSymbol(toX(c.x), toY(c.y)));
+  }
   layers.push(rainSensorSymbol(toX(design.rainSensor.x), toY(design.rainSensor.y)));
   layers.push('</g>');
 
@@ -301,6 +359,23 @@ export function renderIrrigationLayerFeet(
   }
   layers.push('</g>');
 
+  // Layer 1a: Control wire
+  layers.push('<g class="control-wire">');
+  for (const seg of design.wiring?.segments || []) {
+    layers.push(`<line x1="${seg.startX}" y1="${seg.startY}" x2="${seg.endX}" y2="${seg.endY}" stroke="${CONTROL_WIRE_COLOR}" stroke-width="0.1" stroke-dasharray="0.8 0.4"/>`);
+  }
+  for (const seg of design.twoWire?.segments || []) {
+    layers.push(`<line x1="${seg.startX}" y1="${seg.startY}" x2="${seg.endX}" y2="${seg.endY}" stroke="${CONTROL_WIRE_COLOR}" stroke-width="0.15" stroke-dasharray="1.2 0.4 0.2 0.4"/>`);
+  }
+  layers.push('</g>');
+
+  // Layer 1b: Sleeves
+  layers.push('<g class="sleeves">');
+  for (const sleeve of design.sleeves || []) {
+    layers.push(`<line x1="${sleeve.startX}" y1="${sleeve.startY}" x2="${sleeve.endX}" y2="${sleeve.endY}" stroke="#7C3AED" stroke-width="${sleeve.sizeIn / 4}" stroke-opacity="0.5"/>`);
+  }
+  layers.push('</g>');
+
   // Layer 2: Coverage circles
   layers.push('<g class="coverage-circles">');
   for (const head of design.heads) {
@@ -329,6 +404,10 @@ export function renderIrrigationLayerFeet(
     const size = valve.type === 'master' ? 2 : 1.5;
     layers.push(`<rect x="${valve.x - size/2}" y="${valve.y - size/2}" width="${size}" height="${size}" fill="${valve.type === 'master' ? '#000' : '#333'}" stroke="#000" stroke-width="0.1"/>`);
   }
+  for (const box of design.valveBoxes || []) {
+    const halfW = box.type === 'rectangular' ? 4 : 3;
+    layers.push(`<rect x="${box.x - halfW}" y="${box.y - 1.5}" width="${halfW * 2}" height="3" fill="none" stroke="#000" stroke-width="0.1"/>`);
+  }
   layers.push('</g>');
 
   // Layer 5: Equipment
@@ -339,10 +418,53 @@ export function renderIrrigationLayerFeet(
   layers.push(`<line x1="${design.poc.x}" y1="${design.poc.y - 1}" x2="${design.poc.x}" y2="${design.poc.y + 1}" stroke="#000" stroke-width="0.2"/>`);
   // RPZ
   layers.push(`<rect x="${design.backflow.x - 2}" y="${design.backflow.y - 1}" width="4" height="2" fill="#fff" stroke="#000" stroke-width="0.2"/>`);
-  // Controller
-  layers.push(`<rect x="${design.controller.x - 1.5}" y="${design.controller.y - 2}" width="3" height="4" fill="#fff" stroke="#000" stroke-width="0.2"/>`);
+  // Booster pump
+  if (design.pressure?.booster) {
+    layers.push(`<circle cx="${design.backflow.x + 3.5}" cy="${design.backflow.y}" r="1.2" fill="#fff" stroke="#000" stroke-width="0.2"/>`);
+  }
+  // Flow sensor
+  const sensor = design.flowMonitoring?.sensor;
+  if (sensor) {
+    layers.push(`<circle cx="${sensor.x}" cy="${sensor.y}" r="1" fill="#fff" stroke="#1E3A5F" stroke-width="0.2"/>`);
+  }
+  // Controllers
+  for (const c of design.controllers?.length ? design.controllers : [design.controller]) {
+    layers.push(`<rect x="${c.x - 1.5}" y="${c.y - 2}" width="3" height="4" fill="#fff" stroke="#000" stroke-width="0.2"/>`);
+  }
+  layers.push('</g>');
+
+  layers.push('</svg>');
+  return layers.join('\n');
+}
+
+// ============================================================================
+// COVERAGE HEATMAP LAYER
+// ============================================================================
+
+/**
+ * Heatmap layer using viewBox in feet (for overlay on site plan)
+ */
+export function renderHeatmapLayerFeet(
+  design: IrrigationDesign,
+  widthFt: number,
+  heightFt: number
+): string {
+  const layers: string[] = [];
+
+  layers.push(`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${widthFt} ${heightFt}">`);
+  if (design.coverage) {
+    layers.push(renderHeatmapCells(design.coverage, createSheetTransform(1, { x: 0, y: 0 })));
+  }
+
+  // Head positions for reference
+  layers.push('<g class="heads">');
+  for (const head of design.heads) {
+    if (head.radiusFt > 0) {
+      layers.push(`<circle cx="${head.x}" cy="${head.y}" r="0.6" fill="#000"/>`);
+    }
+  }
   layers.push('</g>');
 
   layers.push('</svg>');
   return layers.join('\n');
-}
\ No newline at end of file
+}
@@ -1,25 +1,25 @@
-export function rotorSymbol(x: number, y: number, arc: number, radius: number, color: string): string {
+export function rotorSymbol(x: number, y: number, arc: number, radius: number, color: string, rotation = 0): string {
   const r = 6;
-  const arcStart = -arc / 2;
-  const arcEnd = arc / 2;
-  let arcPath = '';
-  if (arc < 360) {
-    const startAngle = (arcStart * Math.PI) / 180;
-    const endAngle = (arcEnd * Math.PI) / 180;
-    const x1 = x + radius * 0.3 * Math.cos(startAngle);
-    const y1 = y + radius * 0.3 * Math.sin(startAngle);
-    const x2 = x + radius * 0.3 * Math.cos(endAngle);
-    const y2 = y + radius * 0.3 * Math.sin(endAngle);
-    arcPath = `<line x1="${x}" y1="${y}" x2="${x1}" y2="${y1}" stroke="${color}" stroke-width="0.5" opacity="0.6"/>
-    <line x1="${x}" y1="${y}" x2="${x2}" y2="${y2}" stroke="${color}" stroke-width="0.5" opacity="0.6"/>`;
-  }
-  return `<circle cx="${x}" cy="${y}" r="${r}" fill="${color}" stroke="#000" stroke-width="0.8"/>
-  ${arcPath}`;
+  const wedge = arc < 360 ? arcWedge(x, y, Math.max(radius * 0.3, r * 2), arc, rotation, color) : '';
+  return `${wedge}<circle cx="${x}" cy="${y}" r="${r}" fill="${color}" stroke="#000" stroke-width="0.8"/>`;
 }
 
-export function spraySymbol(x: number, y: number, arc: number, color: string): string {
+export function spraySymbol(x: number, y: number, arc: number, color: string, rotation = 0): string {
   const r = 5;
-  return `<circle cx="${x}" cy="${y}" r="${r}" fill="none" stroke="${color}" stroke-width="1.5"/>`;
+  const wedge = arc < 360 ? arcWedge(x, y, r * 2.5, arc, rotation, color) : '';
+  return `${wedge}<circle cx="${x}" cy="${y}" r="${r}" fill="none" stroke="${color}" stroke-width="1.5"/>`;
+}
+
+// Throw wedge: starts at `rotation` degrees (clockwise from +x) and sweeps clockwise through `arc`
+function arcWedge(x: number, y: number, length: number, arc: number, rotation: number, color: string): string {
+  const start = (rotation * Math.PI) / 180;
+  const end = ((rotation + arc) * Math.PI) / 180;
+  const x1 = x + length * Math.cos(start);
+  const y1 = y + length * Math.sin(start);
+  const x2 = x + length * Math.cos(end);
+  const y2 = y + length * Math.sin(end);
+  const largeArc = arc > 180 ? 1 : 0;
+  return `<path d="M${x},${y} L${x1},${y1} A${length},${length} 0 ${largeArc} 1 ${x2},${y2} Z" fill="${color}" fill-opacity="0.2" stroke="${color}" stroke-width="0.5" opacity="0.8"/>`;
 }
 
 export function rotaryNozzleSymbol(x: number, y: number, color: string): string {
@@ -59,6 +59,28 @@ export function rpzSymbol(x: number, y: number): string {
   <text x="${x}" y="${y + 2}" font-size="6" text-anchor="middle" fill="#000" font-weight="bold">RPZ</text>`;
 }
 
+// Drawn just downstream of the RPZ at (rpzX, rpzY)
+export function boosterPumpSymbol(rpzX: number, rpzY: number): string {
+  const x = rpzX + 22, y = rpzY;
+  const r = 7;
+  return `<circle cx="${x}" cy="${y}" r="${r}" fill="#fff" stroke="#000" stroke-width="1.2"/>
+  <polygon points="${x - 3},${y - 4} ${x + 5},${y} ${x - 3},${y + 4}" fill="#000"/>`;
+}
+
+export function regulatorTag(x: number, y: number, setPSI: number): string {
+  return `<rect x="${x - 12}" y="${y - 5}" width="24" height="10" fill="#fff" stroke="#000" stroke-width="0.6"/>
+  <text x="${x}" y="${y + 2.5}" font-size="5" text-anchor="middle" fill="#000" font-weight="bold">PRV ${setPSI}</text>`;
+}
+
+// Casing drawn either side of the pipe with capped ends, tagged at its midpoint
+export function sleeveSymbol(x1: number, y1: number, x2: number, y2: number, label: string): string {
+  const len = Math.hypot(x2 - x1, y2 - y1) || 1;
+  const nx = -(y2 - y1) / len * 3.5, ny = (x2 - x1) / len * 3.5;
+  const mx = (x1 + x2) / 2, my = (y1 + y2) / 2;
+  return `<polygon points="${x1 + nx},${y1 + ny} ${x2 + nx},${y2 + ny} ${x2 - nx},${y2 - ny} ${x1 - nx},${y1 - ny}" fill="none" stroke="#7C3AED" stroke-width="0.8"/>
+  <text x="${mx + nx * 2.5}" y="${my + ny * 2.5 + 2}" font-size="5" text-anchor="middle" fill="#7C3AED" font-weight="bold">${label}</text>`;
+}
+
 export function controllerSymbol(x: number, y: number): string {
   return `<rect x="${x - 10}" y="${y - 8}" width="20" height="16" fill="#fff" stroke="#000" stroke-width="1"/>
   <line x1="${x}" y1="${y - 8}" x2="${x}" y2="${y - 12}" stroke="#000" stroke-width="1.5"/>
@@ -66,6 +88,12 @@ export function controllerSymbol(x: number, y: number): string {
   <text x="${x}" y="${y + 2}" font-size="4" text-anchor="middle" fill="#000">CTRL</text>`;
 }
 
+export function flowSensorSymbol(x: number, y: number): string {
+  const r = 5;
+  return `<circle cx="${x}" cy="${y}" r="${r}" fill="#fff" stroke="#1E3A5F" stroke-width="1"/>
+  <text x="${x}" y="${y + 1.6}" font-size="4.5" text-anchor="middle" fill="#1E3A5F" font-weight="bold">FS</text>`;
+}
+
 export function pocSymbol(x: number, y: number): string {
   const r = 7;
   return `<circle cx="${x}" cy="${y}" r="${r}" fill="#fff" stroke="#000" stroke-width="1.5"/>
@@ -80,22 +108,51 @@ export function rainSensorSymbol(x: number, y: number): string {
   <circle cx="${x}" cy="${y - 10}" r="1.5" fill="#000"/>`;
 }
 
-export function valveBoxSymbol(x: number, y: number): string {
-  return `<rect x="${x - 5}" y="${y - 4}" width="10" height="8" fill="#ccc" stroke="#000" stroke-width="0.5"/>`;
+export function valveBoxSymbol(x: number, y: number, label?: string): string {
+  const box = `<rect x="${x - 5}" y="${y - 4}" width="10" height="8" fill="#ccc" stroke="#000" stroke-width="0.5"/>`;
+  if (!label) return box;
+  return `${box}
+  <text x="${x}" y="${y + 9}" font-size="4.5" text-anchor="middle" fill="#000" font-weight="bold">${label}</text>`;
+}
+
+export function spliceBoxSymbol(x: number, y: number): string {
+  const r = 4;
+  return `<circle cx="${x}" cy="${y}" r="${r}" fill="#fff" stroke="#000" stroke-width="0.8"/>
+  <text x="${x}" y="${y + 1.6}" font-size="3.5" text-anchor="middle" fill="#000" font-weight="bold">SB</text>`;
+}
+
+export function spareWireTag(x: number, y: number, count: number, gaugeAWG: number): string {
+  return `<text x="${x}" y="${y}" font-size="4.5" text-anchor="middle" fill="#B91C1C">+${count} SPARE ${gaugeAWG} AWG</text>`;
+}
+
+export function decoderSymbol(x: number, y: number, label: string): string {
+  const r = 4;
+  return `<polygon points="${x},${y - r} ${x + r},${y} ${x},${y + r} ${x - r},${y}" fill="#fff" stroke="#B91C1C" stroke-width="0.8"/>
+  <text x="${x}" y="${y + 1.4}" font-size="3.5" text-anchor="middle" fill="#B91C1C" font-weight="bold">D</text>
+  <text x="${x + r + 1.5}" y="${y + 1.6}" font-size="4.5" fill="#B91C1C">${label}</text>`;
+}
+
+// Arrestor with its ground rod below
+export function surgeArrestorSymbol(x: number, y: number): string {
+  return `<polygon points="${x - 3.5},${y - 3} ${x + 3.5},${y - 3} ${x},${y + 2}" fill="#FDE047" stroke="#000" stroke-width="0.6"/>
+  <line x1="${x}" y1="${y + 2}" x2="${x}" y2="${y + 5}" stroke="#000" stroke-width="0.6"/>
+  <line x1="${x - 3}" y1="${y + 5}" x2="${x + 3}" y2="${y + 5}" stroke="#000" stroke-width="0.8"/>
+  <line x1="${x - 2}" y1="${y + 6.5}" x2="${x + 2}" y2="${y + 6.5}" stroke="#000" stroke-width="0.6"/>
+  <line x1="${x - 1}" y1="${y + 8}" x2="${x + 1}" y2="${y + 8}" stroke="#000" stroke-width="0.5"/>`;
 }
 
 export function coverageCircle(x: number, y: number, radiusPx: number, color: string): string {
   return `<circle cx="${x}" cy="${y}" r="${radiusPx}" fill="none" stroke="${color}" stroke-width="0.5" stroke-dasharray="3 2" opacity="0.15"/>`;
 }
 
-export function headSymbol(x: number, y: number, type: string, arc: number, radius: number, color: string): string {
+export function headSymbol(x: number, y: number, type: string, arc: number, radius: number, color: string, rotation = 0): string {
   switch (type) {
-    case 'rotor': return rotorSymbol(x, y, arc, radius, color);
-    case 'spray': return spraySymbol(x, y, arc, color);
+    case 'rotor': return rotorSymbol(x, y, arc, radius, color, rotation);
+    case 'spray': return spraySymbol(x, y, arc, color, rotation);
     case 'rotary-nozzle': return rotaryNozzleSymbol(x, y, color);
-    case 'strip': return spraySymbol(x, y, arc, color);
+    case 'strip': return spraySymbol(x, y, arc, color, rotation);
     case 'drip': return dripSymbol(x, y, 20, 20, color);
     case 'quick-coupler': return quickCouplerSymbol(x, y);
-    default: return rotorSymbol(x, y, arc, radius, color);
+    default: return rotorSymbol(x, y, arc, radius, color, rotation);
   }
 }
\ No newline at end of file
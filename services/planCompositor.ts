@@ -7,13 +7,19 @@
  */
 
 import { IrrigationDesign, ProjectInput, SiteAnalysis, PlanSheet, MaterialScheduleItem } from '../types';
-import { calculateScale, getDrawingOrigin, getTitleBlockOrigin, feetToSvgUnits } from '../utils/scaling';
+import { calculateScale, getDrawingOrigin, getTitleBlockOrigin } from '../utils/scaling';
+import { SheetTransform, createSheetTransform, sheetX, sheetY, sheetLength, sheetTransformAttr } from '../utils/coordinates';
 import { renderTitleBlock } from '../renderer/titleBlock';
 import { renderLegend } from '../renderer/legend';
 import { renderBorder } from '../renderer/border';
 import { GENERAL_NOTES } from '../data/generalNotes';
+import { DESIGN_RULES } from '../data/designRules';
 import { generateIR2, generateIR3 } from '../renderer/detailSheets';
 import { renderIrrigationLayer, IrrigationLayerConfig } from '../renderer/svgRenderer';
+import { renderHeatmapCells, renderHeatmapLegend } from '../renderer/heatmap';
+import { generateHydraulicSheet } from '../renderer/hydraulicSheet';
+import { coverageCircle, headSymbol, zoneValveSymbol, masterValveSymbol, rpzSymbol, controllerSymbol, pocSymbol, rainSensorSymbol, valveBoxSymbol, boosterPumpSymbol, regulatorTag, sleeveSymbol, spliceBoxSymbol, spareWireTag, decoderSymbol, surgeArrestorSymbol, flowSensorSymbol } from '../renderer/symbols';
+import { MAINLINE_COLOR, CONTROL_WIRE_COLOR } from '../data/zoneColors';
 import { generateSitePlanFromAnalysis, scaleSitePlanSvg } from './sitePlanGenerator';
 
 // ============================================================================
@@ -25,6 +31,7 @@ export interface CompositorInput {
   design: IrrigationDesign;
   siteAnalysis: SiteAnalysis;
   projectInput: ProjectInput;
+  includeCoverageSheet?: boolean; // Overlay the precipitation heatmap on IR-1 and append its sheet (IR-6)
 }
 
 export interface CompositorOutput {
@@ -41,7 +48,7 @@ export interface CompositorOutput {
  * Compose all plan sheets from site plan and irrigation design
  */
 export function composePlanSheets(input: CompositorInput): CompositorOutput {
-  const { design, siteAnalysis, projectInput, sitePlanSvg } = input;
+  const { design, siteAnalysis, projectInput, sitePlanSvg, includeCoverageSheet } = input;
 
   // Calculate scale and dimensions
   const scaleConfig = calculateScale(siteAnalysis.propertyWidthFt, siteAnalysis.propertyLengthFt);
@@ -51,14 +58,10 @@ export function composePlanSheets(input: CompositorInput): CompositorOutput {
   const dateStr = `Rev 1 - ${today}`;
 
   // Generate or use provided site plan
-  const sitePlanLayer = sitePlanSvg || generateSitePlanFromAnalysis(siteAnalysis);
+  const sitePlanLayer = sitePlanSvg || generateSitePlanFromAnalysis(siteAnalysis, projectInput.imageMarkup);
 
   // Generate irrigation layer
-  const irrigationLayerConfig: IrrigationLayerConfig = {
-    pixelsPerFoot,
-    originX: 0,
-    originY: 0,
-  };
+  const irrigationLayerConfig: IrrigationLayerConfig = createSheetTransform(pixelsPerFoot, { x: 0, y: 0 });
   const irrigationLayer = renderIrrigationLayer(
     design,
     siteAnalysis.propertyWidthFt,
@@ -66,19 +69,18 @@ export function composePlanSheets(input: CompositorInput): CompositorOutput {
     irrigationLayerConfig
   );
 
-  // Compose IR-1 with both layers
+  // Compose IR-1 with both layers drawn through the same feet-to-sheet transform
   const ir1Svg = composeIR1(
     sitePlanLayer,
     design,
-    siteAnalysis,
     projectInput,
     svgWidth,
     svgHeight,
-    pixelsPerFoot,
-    origin,
+    createSheetTransform(pixelsPerFoot, origin),
     scaleLabel,
     feetPerInch,
-    dateStr
+    dateStr,
+    Boolean(includeCoverageSheet)
   );
 
   // Generate detail sheets (unchanged)
@@ -88,6 +90,7 @@ export function composePlanSheets(input: CompositorInput): CompositorOutput {
   // Generate material schedule sheet (IR-4)
   const ir4Svg = generateMaterialScheduleSheet(
     design.materialSchedule,
+    design,
     projectInput.projectName,
     scaleLabel,
     dateStr,
@@ -95,13 +98,35 @@ export function composePlanSheets(input: CompositorInput): CompositorOutput {
     svgHeight
   );
 
+  // Hydraulic calculation sheet (IR-5)
+  const ir5Svg = generateHydraulicSheet(design, projectInput, scaleLabel, dateStr, svgWidth, svgHeight);
+
+  const sheets: PlanSheet[] = [
+    { sheetNumber: 'IR-1', title: 'Irrigation Plan', svgContent: ir1Svg, pageType: 'plan' },
+    { sheetNumber: 'IR-2', title: 'Irrigation Details', svgContent: ir2Svg, pageType: 'details' },
+    { sheetNumber: 'IR-3', title: 'Irrigation Details', svgContent: ir3Svg, pageType: 'details' },
+    { sheetNumber: 'IR-4', title: 'Material Schedule', svgContent: ir4Svg, pageType: 'schedule' },
+    { sheetNumber: 'IR-5', title: 'Hydraulic Calculations', svgContent: ir5Svg, pageType: 'schedule' },
+  ];
+
+  // Optional coverage analysis sheet (IR-6)
+  if (includeCoverageSheet && design.coverage) {
+    const ir6Svg = composeCoverageSheet(
+      sitePlanLayer,
+      design,
+      projectInput,
+      svgWidth,
+      svgHeight,
+      createSheetTransform(pixelsPerFoot, origin),
+      scaleLabel,
+      feetPerInch,
+      dateStr
+    );
+    sheets.push({ sheetNumber: 'IR-6', title: 'Coverage Analysis', svgContent: ir6Svg, pageType: 'plan' });
+  }
+
   return {
-    sheets: [
-      { sheetNumber: 'IR-1', title: 'Irrigation Plan', svgContent: ir1Svg, pageType: 'plan' },
-      { sheetNumber: 'IR-2', title: 'Irrigation Details', svgContent: ir2Svg, pageType: 'details' },
-      { sheetNumber: 'IR-3', title: 'Irrigation Details', svgContent: ir3Svg, pageType: 'details' },
-      { sheetNumber: 'IR-4', title: 'Material Schedule', svgContent: ir4Svg, pageType: 'schedule' },
-    ],
+    sheets,
     sitePlanLayer,
     irrigationLayer,
   };
@@ -114,15 +139,14 @@ export function composePlanSheets(input: CompositorInput): CompositorOutput {
 function composeIR1(
   sitePlanSvg: string,
   design: IrrigationDesign,
-  siteAnalysis: SiteAnalysis,
   projectInput: ProjectInput,
   svgWidth: number,
   svgHeight: number,
-  pixelsPerFoot: number,
-  origin: { x: number; y: number },
+  transform: SheetTransform,
   scaleLabel: string,
   feetPerInch: number,
-  dateStr: string
+  dateStr: string,
+  showHeatmap: boolean
 ): string {
   const layers: string[] = [];
 
@@ -133,32 +157,27 @@ function composeIR1(
   // Layer 1: Border
   layers.push(renderBorder(svgWidth, svgHeight, scaleLabel, feetPerInch));
 
-  // Calculate drawing area dimensions
-  const drawW = svgWidth - 48 - 370 - 20; // Account for margins and title block
-  const drawH = svgHeight - 96;
-
-  // Layer 2: Site plan (scaled to fit drawing area)
-  layers.push(`<g class="site-plan-layer" transform="translate(${origin.x}, ${origin.y})">`);
-  // Extract inner SVG content and embed
+  // Layer 2: Site plan (drawn in feet, placed at plan scale)
   const sitePlanInner = extractSvgContent(sitePlanSvg);
-  // Scale the site plan to fit the drawing area
-  const scaleX = drawW / siteAnalysis.propertyWidthFt;
-  const scaleY = drawH / siteAnalysis.propertyLengthFt;
-  const scale = Math.min(scaleX, scaleY);
-  layers.push(`<g transform="scale(${scale})">`);
+  layers.push(`<g class="site-plan-layer" transform="${sheetTransformAttr(transform)}">`);
   layers.push(sitePlanInner);
   layers.push('</g>');
-  layers.push('</g>');
+
+  // Optional precipitation heatmap, under the irrigation elements
+  if (showHeatmap && design.coverage) {
+    layers.push(`<g class="heatmap-layer" opacity="0.5">`);
+    layers.push(renderHeatmapCells(design.coverage, transform));
+    layers.push('</g>');
+  }
 
   // Layer 3: Irrigation elements (pipes, heads, valves)
-  const toX = (ft: number) => origin.x + feetToSvgUnits(ft, pixelsPerFoot);
-  const toY = (ft: number) => origin.y + feetToSvgUnits(ft, pixelsPerFoot);
-  const toLen = (ft: number) => feetToSvgUnits(ft, pixelsPerFoot);
+  const toX = (ft: number) => sheetX(transform, ft);
+  const toY = (ft: number) => sheetY(transform, ft);
+  const toLen = (ft: number) => sheetLength(transform, ft);
 
   layers.push('<g class="irrigation-layer">');
 
   // Pipes
-  const { MAINLINE_COLOR } = require('../data/zoneColors');
   for (const pipe of design.pipes) {
     const color = pipe.type === 'mainline' ? MAINLINE_COLOR : pipe.type === 'drip-supply' ? '#92400E' : '#666';
     const weight = pipe.type === 'mainline' ? 2.5 : 1;
@@ -166,8 +185,20 @@ function composeIR1(
     layers.push(`<line x1="${toX(pipe.startX)}" y1="${toY(pipe.startY)}" x2="${toX(pipe.endX)}" y2="${toY(pipe.endY)}" stroke="${color}" stroke-width="${weight}"${dash}/>`);
   }
 
+  // Control wire, in the mainline trench except for the controller lead-in
+  for (const seg of design.wiring?.segments || []) {
+    layers.push(`<line x1="${toX(seg.startX)}" y1="${toY(seg.startY)}" x2="${toX(seg.endX)}" y2="${toY(seg.endY)}" stroke="${CONTROL_WIRE_COLOR}" stroke-width="0.6" stroke-dasharray="4 2"/>`);
+  }
+  for (const seg of design.twoWire?.segments || []) {
+    layers.push(`<line x1="${toX(seg.startX)}" y1="${toY(seg.startY)}" x2="${toX(seg.endX)}" y2="${toY(seg.endY)}" stroke="${CONTROL_WIRE_COLOR}" stroke-width="0.8" stroke-dasharray="6 2 1 2"/>`);
+  }
+
+  // Sleeves under paving
+  for (const sleeve of design.sleeves || []) {
+    layers.push(sleeveSymbol(toX(sleeve.startX), toY(sleeve.startY), toX(sleeve.endX), toY(sleeve.endY), `${sleeve.id} ${sleeve.sizeIn}"`));
+  }
+
   // Coverage circles
-  const { coverageCircle, headSymbol, zoneValveSymbol, masterValveSymbol, rpzSymbol, controllerSymbol, pocSymbol, rainSensorSymbol, valveBoxSymbol } = require('../renderer/symbols');
   for (const head of design.heads) {
     if (head.radiusFt > 0) {
       const zone = design.zones.find(z => z.id === head.zoneId);
@@ -180,7 +211,7 @@ function composeIR1(
   for (const head of design.heads) {
     const zone = design.zones.find(z => z.id === head.zoneId);
     const color = zone?.color || '#000';
-    layers.push(headSymbol(toX(head.x), toY(head.y), head.type, head.arc, toLen(head.radiusFt), color));
+    layers.push(headSymbol(toX(head.x), toY(head.y), head.type, head.arc, toLen(head.radiusFt), color, head.rotation));
   }
 
   // Valves
@@ -190,27 +221,75 @@ function composeIR1(
     } else {
       const zone = design.zones.find(z => z.id === valve.zoneId);
       layers.push(zoneValveSymbol(toX(valve.x), toY(valve.y), zone?.color || '#333'));
-      layers.push(valveBoxSymbol(toX(valve.x), toY(valve.y) + 10));
+      if (!valve.boxId) layers.push(valveBoxSymbol(toX(valve.x), toY(valve.y) + 10));
+      const regulator = design.pressure?.regulators.find(r => r.valveId === valve.id);
+      if (regulator) layers.push(regulatorTag(toX(valve.x), toY(valve.y) - 11, regulator.setPSI));
+    }
+  }
+  for (const box of design.valveBoxes || []) {
+    layers.push(valveBoxSymbol(toX(box.x), toY(box.y) + 10, box.id));
+  }
+
+  // Splice boxes and spare conductors
+  for (const box of design.wiring?.spliceBoxes || []) {
+    layers.push(spliceBoxSymbol(toX(box.x), toY(box.y)));
+  }
+  for (const spare of design.wiring?.spares || []) {
+    layers.push(spareWireTag(toX(spare.x), toY(spare.y) + 21, spare.count, spare.gaugeAWG));
+  }
+
+  // Two-wire decoders, one tag per valve box, and surge arrestors
+  const twoWire = design.twoWire;
+  if (twoWire) {
+    for (const box of twoWire.spliceBoxes) {
+      layers.push(spliceBoxSymbol(toX(box.x), toY(box.y)));
+    }
+    const tagged = new Set<string>();
+    for (const decoder of twoWire.decoders) {
+      const key = `${decoder.x},${decoder.y}`;
+      if (tagged.has(key)) continue;
+      tagged.add(key);
+      const ids = twoWire.decoders.filter(d => d.x === decoder.x && d.y === decoder.y).map(d => d.id);
+      layers.push(decoderSymbol(toX(decoder.x) + 9, toY(decoder.y) + 10, ids.join(', ')));
+    }
+    for (const arrestor of twoWire.surgeArrestors) {
+      const dx = arrestor.decoderId ? -9 : 0;
+      layers.push(surgeArrestorSymbol(toX(arrestor.x) + dx, toY(arrestor.y) + (arrestor.decoderId ? 10 : 0)));
     }
   }
 
   // Equipment
   layers.push(pocSymbol(toX(design.poc.x), toY(design.poc.y)));
   layers.push(rpzSymbol(toX(design.backflow.x), toY(design.backflow.y)));
-  layers.push(controllerSymbol(toX(design.controller.x), toY(design.controller.y)));
+  if (design.flowMonitoring) layers.push(flowSensorSymbol(toX(design.flowMonitoring.sensor.x), toY(design.flowMonitoring.sensor.y)));
+  if (design.pressure?.booster) layers.push(boosterPumpSymbol(toX(design.backflow.x), toY(design.backflow.y)));
+  for (const c of design.controllers?.length ? design.controllers : [design.controller]) {
+    layers.push(controllerSymbol(toX(c.x), toY(c.y)));
+  }
   layers.push(rainSensorSymbol(toX(design.rainSensor.x), toY(design.rainSensor.y)));
 
   layers.push('</g>');
 
   // Layer 4: Zone schedule
-  const zsX = origin.x;
+  const zsX = transform.originX;
   const zsY = svgHeight - 200;
   layers.push(renderZoneSchedule(design, zsX, zsY));
 
   // Layer 5: General notes
-  const gnX = origin.x + 350;
+  const gnX = transform.originX + 350;
   const gnY = svgHeight - 200;
   layers.push(renderGeneralNotes(gnX, gnY));
+  if (design.pressure && design.pressure.notes.length > 0) {
+    layers.push(renderPressureNotes(design.pressure.notes, gnX + 300, gnY));
+  }
+
+  // Wire schedule
+  if (design.wiring) {
+    layers.push(renderWireSchedule(design, zsX + 1000, zsY));
+  }
+  if (design.twoWire) {
+    layers.push(renderDecoderTable(design, zsX + 1000, zsY));
+  }
 
   // Layer 6: Legend
   const tbOrigin = getTitleBlockOrigin(svgWidth);
@@ -234,10 +313,11 @@ function composeIR1(
 // ============================================================================
 
 function renderZoneSchedule(design: IrrigationDesign, x: number, y: number): string {
-  const colWidths = [40, 60, 40, 50, 60, 50];
+  const colWidths = [40, 50, 40, 40, 50, 40, 40, 40];
   const totalW = colWidths.reduce((a, b) => a + b, 0);
   const rowH = 16;
-  const headers = ['Zone', 'Head Type', 'Heads', 'GPM', 'Precip Rate', 'Runtime'];
+  const controllers = design.controllers || [];
+  const headers = ['Zone', 'Head Type', 'Heads', 'GPM', 'Precip Rate', 'Runtime', 'Valve Box', 'Station'];
   let svg = '';
 
   svg += `<rect x="${x}" y="${y}" width="${totalW}" height="${rowH}" fill="#e5e5e5" stroke="#000" stroke-width="0.5"/>`;
@@ -260,6 +340,8 @@ function renderZoneSchedule(design: IrrigationDesign, x: number, y: number): str
       z.totalGPM.toString(),
       z.precipRateInPerHr + ' in/hr',
       z.runtimeMinutes + ' min',
+      design.valves.find(v => v.zoneId === z.id)?.boxId ?? '-',
+      z.station === undefined ? '-' : controllers.length > 1 ? `${z.controllerId}-${z.station}` : String(z.station),
     ];
     cx = x;
     for (let i = 0; i < vals.length; i++) {
@@ -268,9 +350,125 @@ function renderZoneSchedule(design: IrrigationDesign, x: number, y: number): str
     }
   }
 
+  let ny = y + rowH * (design.zones.length + 1) + 10;
+  for (const c of controllers) {
+    const extras = [
+      c.masterValveStation !== null ? `MV on station ${c.masterValveStation}` : '',
+      c.flowSensorStation !== null ? `flow sensor on station ${c.flowSensorStation}` : '',
+    ].filter(Boolean);
+    const line = `${c.id}: ${c.model}, ${c.stationCapacity} stations (base${c.modules.map(m => ` + ${m}`).join('')}); ` +
+      `${c.zoneStations} zone(s)${extras.length > 0 ? ', ' + extras.join(', ') : ''}; ${c.spareStations} spare.`;
+    svg += `<text x="${x}" y="${ny}" font-size="5.5" fill="#333" font-family="Arial">${escapeXml(line)}</text>`;
+    ny += 8;
+  }
+
   return svg;
 }
 
+// ============================================================================
+// WIRE SCHEDULE
+// ============================================================================
+
+function renderWireSchedule(design: IrrigationDesign, x: number, y: number): string {
+  const wiring = design.wiring!;
+  const colWidths = [40, 45, 50, 50, 55, 55];
+  const totalW = colWidths.reduce((a, b) => a + b, 0);
+  const rowH = 12;
+  const headers = ['Valve', 'Zone', 'Length', 'Gauge', 'Inrush V', 'Holding V'];
+  let svg = '';
+
+  svg += `<rect x="${x}" y="${y}" width="${totalW}" height="${rowH}" fill="#e5e5e5" stroke="#000" stroke-width="0.5"/>`;
+  svg += `<text x="${x + totalW/2}" y="${y - 4}" font-size="8" text-anchor="middle" fill="#000" font-weight="bold" font-family="Arial">CONTROL WIRE SCHEDULE (${DESIGN_RULES.wiring.controllerOutputVAC} VAC)</text>`;
+
+  let cx = x;
+  for (let i = 0; i < headers.length; i++) {
+    svg += `<text x="${cx + colWidths[i]/2}" y="${y + 8.5}" font-size="6" text-anchor="middle" fill="#000" font-weight="bold" font-family="Arial">${headers[i]}</text>`;
+    cx += colWidths[i];
+  }
+
+  wiring.runs.forEach((run, ri) => {
+    const ry = y + rowH + ri * rowH;
+    const zone = design.zones.find(z => z.id === run.zoneId);
+    svg += `<rect x="${x}" y="${ry}" width="${totalW}" height="${rowH}" fill="${ri % 2 === 0 ? '#fff' : '#f9f9f9'}" stroke="#000" stroke-width="0.3"/>`;
+    const vals = [
+      run.valveId,
+      zone ? `Zone ${zone.number}` : 'Master',
+      `${run.lengthFt} LF`,
+      `${run.gaugeAWG} AWG`,
+      run.inrushVAC.toFixed(1),
+      run.holdingVAC.toFixed(1),
+    ];
+    cx = x;
+    for (let i = 0; i < vals.length; i++) {
+      svg += `<text x="${cx + colWidths[i]/2}" y="${ry + 8.5}" font-size="5.5" text-anchor="middle" fill="#000" font-family="Arial">${vals[i]}</text>`;
+      cx += colWidths[i];
+    }
+  });
+
+  let ny = y + rowH * (wiring.runs.length + 1) + 10;
+  const commons = wiring.commons.map(c => `${wiring.commons.length > 1 ? `${c.controllerId} common` : 'Common'}: ${c.gaugeAWG} AWG, ${c.lengthFt} LF.`);
+  const lines = [
+    `${commons.join(' ')} Spares: ${DESIGN_RULES.wiring.sparesPerManifold} per valve box, coiled.`,
+    ...wiring.totals.map(t => `${t.gaugeAWG} AWG ${t.use}: ${t.lengthFt} LF`),
+    wiring.spliceBoxes.length > 0 ? `Common splices in ${wiring.spliceBoxes.length} splice box(es) (SB); no splices in the trench.` : '',
+  ].filter(Boolean);
+  for (const line of lines) {
+    svg += `<text x="${x}" y="${ny}" font-size="5.5" fill="#333" font-family="Arial">${escapeXml(line)}</text>`;
+    ny += 8;
+  }
+  return svg;
+}
+
+function renderDecoderTable(design: IrrigationDesign, x: number, y: number): string {
+  const twoWire = design.twoWire!;
+  const colWidths = [40, 60, 40, 40, 50];
+  const totalW = colWidths.reduce((a, b) => a + b, 0);
+  const rowH = 12;
+  const headers = ['Decoder', 'Model', 'Address', 'Valve', 'Zone'];
+  let svg = '';
+
+  svg += `<rect x="${x}" y="${y}" width="${totalW}" height="${rowH}" fill="#e5e5e5" stroke="#000" stroke-width="0.5"/>`;
+  svg += `<text x="${x + totalW/2}" y="${y - 4}" font-size="8" text-anchor="middle" fill="#000" font-weight="bold" font-family="Arial">DECODER ADDRESS TABLE</text>`;
+
+  let cx = x;
+  for (let i = 0; i < headers.length; i++) {
+    svg += `<text x="${cx + colWidths[i]/2}" y="${y + 8.5}" font-size="6" text-anchor="middle" fill="#000" font-weight="bold" font-family="Arial">${headers[i]}</text>`;
+    cx += colWidths[i];
+  }
+
+  const rows = twoWire.decoders.flatMap(d => d.outputs.map((output, oi) => ({ decoder: d, output, first: oi === 0 })));
+  rows.forEach(({ decoder, output, first }, ri) => {
+    const ry = y + rowH + ri * rowH;
+    const zone = design.zones.find(z => z.id === output.zoneId);
+    svg += `<rect x="${x}" y="${ry}" width="${totalW}" height="${rowH}" fill="${ri % 2 === 0 ? '#fff' : '#f9f9f9'}" stroke="#000" stroke-width="0.3"/>`;
+    const vals = [
+      first ? decoder.id : '',
+      first ? decoder.model : '',
+      (design.controllers?.length ?? 0) > 1 ? `${decoder.controllerId}-${output.address}` : String(output.address),
+      output.valveId,
+      zone ? `Zone ${zone.number}` : 'Master',
+    ];
+    cx = x;
+    for (let i = 0; i < vals.length; i++) {
+      svg += `<text x="${cx + colWidths[i]/2}" y="${ry + 8.5}" font-size="5.5" text-anchor="middle" fill="#000" font-family="Arial">${vals[i]}</text>`;
+      cx += colWidths[i];
+    }
+  });
+
+  let ny = y + rowH * (rows.length + 1) + 10;
+  const { arrestorSpacingFt, decodersPerArrestor } = DESIGN_RULES.twoWire;
+  const lines = [
+    `Two-wire ${(design.controllers?.length ?? 0) > 1 ? 'paths, one per controller' : 'path'}: ${twoWire.cable.model} (${twoWire.cable.gaugeAWG} AWG), ${twoWire.cable.lengthFt} LF; farthest decoder ${twoWire.longestPathFt} ft.`,
+    `${twoWire.surgeArrestors.length} LSP-1 surge protector(s): every ${arrestorSpacingFt} ft or ${decodersPerArrestor} decoders and at each path end.`,
+    `${twoWire.groundRods} ground rod(s), one at each surge protector and controller.`,
+    twoWire.spliceBoxes.length > 0 ? `Path splices in ${twoWire.spliceBoxes.length} splice box(es) (SB); no splices in the trench.` : '',
+  ].filter(Boolean);
+  for (const line of lines) {
+    svg += `<text x="${x}" y="${ny}" font-size="5.5" fill="#333" font-family="Arial">${escapeXml(line)}</text>`;
+    ny += 8;
+  }
+  return svg;
+}
 // ============================================================================
 // GENERAL NOTES
 // ============================================================================
@@ -285,12 +483,42 @@ function renderGeneralNotes(x: number, y: number): string {
   return svg;
 }
 
+// Booster pump notes run long (electrical requirements), so wrap instead of truncating
+function renderPressureNotes(notes: string[], x: number, y: number): string {
+  let svg = `<text x="${x}" y="${y - 4}" font-size="8" fill="#000" font-weight="bold" font-family="Arial">PRESSURE MANAGEMENT</text>`;
+  let ny = y + 10;
+  notes.forEach((note, i) => {
+    wrapText(`${i + 1}. ${note}`, 95).forEach(line => {
+      svg += `<text x="${x}" y="${ny}" font-size="5.5" fill="#333" font-family="Arial">${escapeXml(line)}</text>`;
+      ny += 8;
+    });
+    ny += 6;
+  });
+  return svg;
+}
+
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    if (line && line.length + word.length + 1 > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
 // ============================================================================
 // MATERIAL SCHEDULE SHEET (IR-4)
 // ============================================================================
 
 function generateMaterialScheduleSheet(
   materials: MaterialScheduleItem[],
+  design: IrrigationDesign,
   projectName: string,
   scaleLabel: string,
   dateStr: string,
@@ -363,6 +591,11 @@ function generateMaterialScheduleSheet(
   const headCount = materials.filter(m => m.item.toLowerCase().includes('head') || m.item.toLowerCase().includes('rotor') || m.item.toLowerCase().includes('spray')).reduce((sum, m) => sum + m.quantity, 0);
   layers.push(`<text x="${tableX + 10}" y="${summaryY + 55}" font-size="9" fill="#333" font-family="Arial">Total Sprinkler Heads: ${headCount}</text>`);
 
+  // Sleeve schedule beside the materials, for the paving contractor
+  if (design.sleeves && design.sleeves.length > 0) {
+    layers.push(renderSleeveSchedule(design, tableX + totalW + 80, tableY));
+  }
+
   // Title block
   const tbOrigin = getTitleBlockOrigin(svgWidth);
   layers.push(renderTitleBlock(
@@ -375,6 +608,150 @@ function generateMaterialScheduleSheet(
   return layers.join('\n');
 }
 
+// ============================================================================
+// SLEEVE SCHEDULE
+// ============================================================================
+
+function renderSleeveSchedule(design: IrrigationDesign, x: number, y: number): string {
+  const colWidths = [50, 50, 60, 110, 110, 150];
+  const headers = ['Sleeve', 'Size', 'Length', 'Carries', 'Surface', 'Center, from POC'];
+  const totalW = colWidths.reduce((a, b) => a + b, 0);
+  const rowH = 24;
+  const sleeves = design.sleeves || [];
+  let svg = '';
+
+  svg += `<text x="${x}" y="${y - 10}" font-size="12" fill="#000" font-weight="bold" font-family="Arial">SLEEVE SCHEDULE - INSTALL BEFORE PAVING</text>`;
+  svg += `<rect x="${x}" y="${y}" width="${totalW}" height="${rowH}" fill="#1F2937" stroke="#000" stroke-width="1"/>`;
+  let cx = x;
+  for (let i = 0; i < headers.length; i++) {
+    svg += `<text x="${cx + colWidths[i]/2}" y="${y + 16}" font-size="10" text-anchor="middle" fill="#fff" font-weight="bold" font-family="Arial">${headers[i]}</text>`;
+    cx += colWidths[i];
+  }
+
+  for (let si = 0; si < sleeves.length; si++) {
+    const s = sleeves[si];
+    const ry = y + rowH + si * rowH;
+    svg += `<rect x="${x}" y="${ry}" width="${totalW}" height="${rowH}" fill="${si % 2 === 0 ? '#fff' : '#F3F4F6'}" stroke="#D1D5DB" stroke-width="0.5"/>`;
+    const east = (s.startX + s.endX) / 2 - design.poc.x;
+    const south = (s.startY + s.endY) / 2 - design.poc.y;
+    const vals = [
+      s.id,
+      `${s.sizeIn}"`,
+      `${s.lengthFt} LF`,
+      s.carries === 'wire' ? 'Control wire' : `${s.carrierSizeIn}" ${s.carries}`,
+      s.surface,
+      `${Math.abs(Math.round(east))}' ${east >= 0 ? 'E' : 'W'}, ${Math.abs(Math.round(south))}' ${south >= 0 ? 'S' : 'N'}`,
+    ];
+    cx = x;
+    for (let i = 0; i < vals.length; i++) {
+      svg += `<text x="${cx + colWidths[i]/2}" y="${ry + 16}" font-size="9" text-anchor="middle" fill="#000" font-family="Arial">${escapeXml(vals[i])}</text>`;
+      cx += colWidths[i];
+    }
+  }
+
+  const ny = y + rowH * (sleeves.length + 1) + 20;
+  svg += `<text x="${x}" y="${ny}" font-size="9" fill="#333" font-family="Arial">Sch. 40 PVC, ${DESIGN_RULES.sleeves.sizeFactor}x the carrier pipe (${DESIGN_RULES.sleeves.wireSleeveSizeIn}" for control wire); lengths include ${DESIGN_RULES.sleeves.extendPastEdgeFt}' past each paving edge. Cap the ends until the pipe is pulled through.</text>`;
+  return svg;
+}
+
+// ============================================================================
+// COVERAGE ANALYSIS SHEET (IR-6)
+// ============================================================================
+
+function composeCoverageSheet(
+  sitePlanSvg: string,
+  design: IrrigationDesign,
+  projectInput: ProjectInput,
+  svgWidth: number,
+  svgHeight: number,
+  transform: SheetTransform,
+  scaleLabel: string,
+  feetPerInch: number,
+  dateStr: string
+): string {
+  const layers: string[] = [];
+
+  // SVG header
+  layers.push(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${svgWidth}" height="${svgHeight}" viewBox="0 0 ${svgWidth} ${svgHeight}">`);
+  layers.push(`<rect width="${svgWidth}" height="${svgHeight}" fill="#fff"/>`);
+
+  // Border
+  layers.push(renderBorder(svgWidth, svgHeight, scaleLabel, feetPerInch));
+
+  // Site plan, faded so the heatmap reads first
+  layers.push(`<g class="site-plan-layer" opacity="0.4" transform="${sheetTransformAttr(transform)}">`);
+  layers.push(extractSvgContent(sitePlanSvg));
+  layers.push('</g>');
+
+  // Heatmap and head positions
+  if (design.coverage) {
+    layers.push(renderHeatmapCells(design.coverage, transform));
+  }
+  for (const head of design.heads) {
+    if (head.radiusFt > 0) {
+      layers.push(`<circle cx="${sheetX(transform, head.x)}" cy="${sheetY(transform, head.y)}" r="2" fill="#000"/>`);
+    }
+  }
+
+  // Coverage table
+  layers.push(renderCoverageTable(design, transform.originX, svgHeight - 200));
+
+  // Heatmap legend
+  const tbOrigin = getTitleBlockOrigin(svgWidth);
+  layers.push(renderHeatmapLegend(tbOrigin.x - 200, svgHeight - 200));
+
+  // Title block
+  layers.push(renderTitleBlock(
+    tbOrigin.x, tbOrigin.y, svgHeight - 96,
+    projectInput.projectName, 'COVERAGE ANALYSIS', 'IR-6',
+    scaleLabel, dateStr, design.totalSystemGPM, design.totalZones
+  ));
+
+  layers.push('</svg>');
+  return layers.join('\n');
+}
+
+function renderCoverageTable(design: IrrigationDesign, x: number, y: number): string {
+  const colWidths = [40, 60, 50, 40, 50, 60, 40];
+  const totalW = colWidths.reduce((a, b) => a + b, 0);
+  const rowH = 16;
+  const headers = ['Area', 'Zones', 'DU (LQ)', 'SC', 'Head-Head', 'Dry Spots', 'Result'];
+  const areas = design.coverage ? design.coverage.areas : [];
+  let svg = '';
+
+  svg += `<rect x="${x}" y="${y}" width="${totalW}" height="${rowH}" fill="#e5e5e5" stroke="#000" stroke-width="0.5"/>`;
+  svg += `<text x="${x + totalW/2}" y="${y - 4}" font-size="8" text-anchor="middle" fill="#000" font-weight="bold" font-family="Arial">COVERAGE SUMMARY</text>`;
+
+  let cx = x;
+  for (let i = 0; i < headers.length; i++) {
+    svg += `<text x="${cx + colWidths[i]/2}" y="${y + 11}" font-size="6" text-anchor="middle" fill="#000" font-weight="bold" font-family="Arial">${headers[i]}</text>`;
+    cx += colWidths[i];
+  }
+
+  for (let ai = 0; ai < areas.length; ai++) {
+    const a = areas[ai];
+    const ry = y + rowH + ai * rowH;
+    const passes = a.passes.duLowQuarter && a.passes.schedulingCoefficient && a.passes.headToHead;
+    svg += `<rect x="${x}" y="${ry}" width="${totalW}" height="${rowH}" fill="${ai % 2 === 0 ? '#fff' : '#f9f9f9'}" stroke="#000" stroke-width="0.3"/>`;
+    const vals = [
+      a.areaId,
+      a.zoneIds.join(', '),
+      a.duLowQuarter.toFixed(2),
+      a.schedulingCoefficient === null ? 'N/A' : a.schedulingCoefficient.toFixed(2),
+      a.headToHeadPct + '%',
+      a.drySpots.length.toString(),
+      passes ? 'PASS' : 'FAIL',
+    ];
+    cx = x;
+    for (let i = 0; i < vals.length; i++) {
+      svg += `<text x="${cx + colWidths[i]/2}" y="${ry + 11}" font-size="5.5" text-anchor="middle" fill="#000" font-family="Arial">${escapeXml(vals[i])}</text>`;
+      cx += colWidths[i];
+    }
+  }
+
+  return svg;
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
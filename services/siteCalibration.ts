@@ -0,0 +1,135 @@
+/**
+ * FlowDrafter Site Calibration
+ *
+ * Runs after AI site analysis. The AI only guesses property dimensions, so
+ * every feet value is rebuilt from the user's scale reference:
+ * pixels-per-foot comes from the two marked points and the known distance,
+ * and the image aspect ratio turns normalized (0-1) coordinates into feet.
+ */
+
+import { SiteAnalysis, IrrigableZone, ImageMarkup, SiteCalibration } from '../types';
+import { areaOfPolygon, boundingBox } from '../utils/geometry';
+import { normalizedToFeet } from '../utils/coordinates';
+
+// Used when the image size was not captured (treats the image as square)
+const NOMINAL_IMAGE_SIZE_PX = 1000;
+
+// ============================================================================
+// MAIN CALIBRATION
+// ============================================================================
+
+/**
+ * Rescale every dimension, polygon-derived size and area in the analysis
+ * to the marked scale reference. Returns the analysis unchanged when no
+ * usable scale reference exists.
+ */
+export function calibrateSiteAnalysis(analysis: SiteAnalysis, markup?: ImageMarkup): SiteAnalysis {
+  const ref = markup?.scaleReference;
+  if (!markup || !ref || !(ref.distanceFt > 0)) return analysis;
+
+  const aspectRatioAssumed = !(markup.imageWidthPx && markup.imageHeightPx);
+  const imageWidthPx = markup.imageWidthPx || NOMINAL_IMAGE_SIZE_PX;
+  const imageHeightPx = markup.imageHeightPx || NOMINAL_IMAGE_SIZE_PX;
+
+  const refPx = Math.hypot(
+    (ref.point2.x - ref.point1.x) * imageWidthPx,
+    (ref.point2.y - ref.point1.y) * imageHeightPx
+  );
+  if (refPx <= 0) return analysis;
+
+  const pixelsPerFoot = refPx / ref.distanceFt;
+  const widthFt = imageWidthPx / pixelsPerFoot;
+  const lengthFt = imageHeightPx / pixelsPerFoot;
+
+  // Ratios between calibrated and AI-estimated feet, for values without geometry
+  const sx = analysis.propertyWidthFt > 0 ? widthFt / analysis.propertyWidthFt : 1;
+  const sy = analysis.propertyLengthFt > 0 ? lengthFt / analysis.propertyLengthFt : 1;
+
+  const rescaleZone = (zone: IrrigableZone) => calibrateZone(zone, widthFt, lengthFt, sx, sy);
+  const turfZones = analysis.turfZones.map(rescaleZone);
+  const bedZones = analysis.bedZones.map(rescaleZone);
+  const narrowStrips = analysis.narrowStrips.map(rescaleZone);
+
+  const allZones = [...turfZones, ...bedZones, ...narrowStrips];
+  const totalIrrigableSqFt = allZones.length > 0
+    ? Math.round(allZones.reduce((sum, z) => sum + z.areaFt2, 0))
+    : Math.round(analysis.totalIrrigableSqFt * sx * sy);
+
+  const calibration: SiteCalibration = {
+    pixelsPerFoot: round(pixelsPerFoot, 3),
+    imageWidthPx,
+    imageHeightPx,
+    aspectRatioAssumed,
+    aiPropertyWidthFt: analysis.propertyWidthFt,
+    aiPropertyLengthFt: analysis.propertyLengthFt,
+    aiTotalIrrigableSqFt: analysis.totalIrrigableSqFt,
+    widthErrorPct: percentError(analysis.propertyWidthFt, widthFt),
+    lengthErrorPct: percentError(analysis.propertyLengthFt, lengthFt),
+    areaErrorPct: percentError(analysis.totalIrrigableSqFt, totalIrrigableSqFt),
+  };
+
+  return {
+    ...analysis,
+    propertyWidthFt: round(widthFt, 1),
+    propertyLengthFt: round(lengthFt, 1),
+    totalIrrigableSqFt,
+    turfZones,
+    bedZones,
+    narrowStrips,
+    structures: analysis.structures.map(s => {
+      if (s.boundaryPoints && s.boundaryPoints.length >= 3) {
+        const bb = boundingBox(s.boundaryPoints);
+        return { ...s, widthFt: round(bb.width * widthFt, 1), lengthFt: round(bb.height * lengthFt, 1) };
+      }
+      return { ...s, widthFt: round(s.widthFt * sx, 1), lengthFt: round(s.lengthFt * sy, 1) };
+    }),
+    treeCanopyAreas: analysis.treeCanopyAreas.map(t => ({
+      ...t,
+      radiusFt: round(t.radiusFt * Math.sqrt(sx * sy), 1),
+    })),
+    calibration,
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Zones with a traced boundary get their size measured from the polygon;
+ * zones without one keep the AI's numbers, scaled by the calibration ratio.
+ */
+function calibrateZone(
+  zone: IrrigableZone,
+  widthFt: number,
+  lengthFt: number,
+  sx: number,
+  sy: number
+): IrrigableZone {
+  if (zone.boundaryPoints && zone.boundaryPoints.length >= 3) {
+    const feetPoints = zone.boundaryPoints.map(p => normalizedToFeet(p, { widthFt, lengthFt }));
+    const bb = boundingBox(feetPoints);
+    return {
+      ...zone,
+      widthFt: round(bb.width, 1),
+      lengthFt: round(bb.height, 1),
+      areaFt2: Math.round(areaOfPolygon(feetPoints)),
+    };
+  }
+  return {
+    ...zone,
+    widthFt: round(zone.widthFt * sx, 1),
+    lengthFt: round(zone.lengthFt * sy, 1),
+    areaFt2: Math.round(zone.areaFt2 * sx * sy),
+  };
+}
+
+function percentError(estimate: number, actual: number): number {
+  if (!(actual > 0) || !(estimate > 0)) return 0;
+  return round(((estimate - actual) / actual) * 100, 1);
+}
+
+function round(value: number, decimals: number): number {
+  const f = Math.pow(10, decimals);
+  return Math.round(value * f) / f;
+}
@@ -0,0 +1,263 @@
+/**
+ * FlowDrafter Site Markup
+ *
+ * Makes the user's traced irrigation areas authoritative. Tagged areas become
+ * zones directly; untagged areas keep the AI's turf/bed split but only inside
+ * the traced outline. Anything the user did not trace is dropped so the
+ * design covers only the contracted scope.
+ */
+
+import { SiteAnalysis, IrrigableZone, ImageMarkup, ImagePoint, IrrigationAreaType, NormalizedPoint, SpotElevation } from '../types';
+import {
+  Point,
+  areaOfPolygon,
+  boundingBox,
+  centroid,
+  clipPolygon,
+  convexParts,
+  isPointInPolygon,
+  mergePolygons,
+  pathLength,
+  signedArea,
+  subtractConvexPolygon,
+} from '../utils/geometry';
+import { normalizedToFeet, siteFrame } from '../utils/coordinates';
+
+// Clipped slivers smaller than this are not worth a zone
+const MIN_ZONE_AREA_FT2 = 10;
+
+// Uncovered leftovers narrower than this on average are left to the neighbouring zone's throw
+const MIN_FILL_WIDTH_FT = 3;
+
+// ============================================================================
+// MAIN ENTRY
+// ============================================================================
+
+/**
+ * Replace the AI-detected zones with the traced irrigation areas when the
+ * user has enabled that mode. Expects a calibrated analysis so feet values
+ * come from the scale reference.
+ */
+export function applyMarkedIrrigationAreas(analysis: SiteAnalysis, markup?: ImageMarkup): SiteAnalysis {
+  if (!markup?.useIrrigationAreasAsZones) return analysis;
+  const areas = (markup.irrigationAreas || []).filter(a => a.length >= 3);
+  if (areas.length === 0) return analysis;
+
+  const widthFt = analysis.propertyWidthFt;
+  const lengthFt = analysis.propertyLengthFt;
+  const aiZones = [...analysis.turfZones, ...analysis.bedZones, ...analysis.narrowStrips];
+  const zones: IrrigableZone[] = [];
+
+  (markup.irrigationAreas || []).forEach((area, i) => {
+    if (area.length < 3) return;
+    const tag = markup.irrigationAreaTypes?.[i] ?? null;
+    const areaId = `MK-${i + 1}`;
+
+    if (tag) {
+      zones.push(zoneFromPolygon(areaId, tag, area, widthFt, lengthFt));
+      return;
+    }
+
+    const parts = convexParts(area);
+    const clipped = aiZones.flatMap(z => clipZoneToArea(z, area, parts, `${z.id}-${areaId}`, widthFt, lengthFt));
+
+    // Whatever no detected zone covers inside the traced area is irrigated as turf
+    zones.push(...clipped, ...fillUncovered(areaId, parts, aiZones, widthFt, lengthFt));
+  });
+
+  return {
+    ...analysis,
+    turfZones: zones.filter(z => z.type === 'turf'),
+    bedZones: zones.filter(z => z.type === 'bed' || z.type === 'planter' || z.type === 'tree-ring'),
+    narrowStrips: zones.filter(z => z.type === 'narrow-strip'),
+    totalIrrigableSqFt: Math.round(zones.reduce((sum, z) => sum + z.areaFt2, 0)),
+  };
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Trim an AI zone to a traced area, clipping it to each convex part of the
+ * area and joining the pieces back up. A zone the trace cuts in two comes
+ * back as two zones.
+ */
+function clipZoneToArea(
+  zone: IrrigableZone,
+  area: ImagePoint[],
+  parts: Point[][],
+  id: string,
+  widthFt: number,
+  lengthFt: number
+): IrrigableZone[] {
+  const center = { x: zone.centerX, y: zone.centerY };
+
+  if (!zone.boundaryPoints || zone.boundaryPoints.length < 3) {
+    return isPointInPolygon(center, area) ? [{ ...zone, id }] : [];
+  }
+
+  const outlines = mergePolygons(parts.map(part => clipPolygon(zone.boundaryPoints, part)));
+  return outlines
+    .map((outline, k) => zoneFromPolygon(outlines.length > 1 ? `${id}-${k + 1}` : id, zone.type, outline, widthFt, lengthFt))
+    .filter(z => z.areaFt2 >= MIN_ZONE_AREA_FT2)
+    .map(z => ({ ...z, exposure: zone.exposure, slopeRatio: zone.slopeRatio }));
+}
+
+/**
+ * Turf zones for the parts of a traced area that no AI zone reaches. Each
+ * zone outline is cut out of the area's convex parts and the pieces are
+ * joined back up, stopping short of a ring around a hole.
+ */
+function fillUncovered(
+  areaId: string,
+  parts: Point[][],
+  aiZones: IrrigableZone[],
+  widthFt: number,
+  lengthFt: number
+): IrrigableZone[] {
+  let pieces = parts;
+  for (const zone of aiZones) {
+    if (!zone.boundaryPoints || zone.boundaryPoints.length < 3) continue;
+    for (const hole of convexParts(zone.boundaryPoints)) {
+      pieces = pieces.flatMap(piece => subtractConvexPolygon(piece, hole));
+    }
+  }
+
+  // Join pieces wherever they still make one outline; a join that would close a ring around a hole is skipped
+  const outlines = [...pieces];
+  for (let joined = true; joined;) {
+    joined = false;
+    for (let a = 0; a < outlines.length && !joined; a++) {
+      for (let b = a + 1; b < outlines.length && !joined; b++) {
+        const merged = mergePolygons([outlines[a], outlines[b]]);
+        if (merged.length === 1 && signedArea(merged[0]) > 0) {
+          outlines[a] = merged[0];
+          outlines.splice(b, 1);
+          joined = true;
+        }
+      }
+    }
+  }
+
+  const frame = { widthFt, lengthFt };
+  return outlines
+    .map((outline, k) => zoneFromPolygon(outlines.length > 1 ? `${areaId}-${k + 1}` : areaId, 'turf', outline, widthFt, lengthFt))
+    .filter(z => {
+      const perimeterFt = pathLength([...z.boundaryPoints, z.boundaryPoints[0]].map(p => normalizedToFeet(p, frame)));
+      return z.areaFt2 >= MIN_ZONE_AREA_FT2 && 2 * z.areaFt2 / perimeterFt >= MIN_FILL_WIDTH_FT;
+    });
+}
+
+/**
+ * Build a zone from a normalized polygon, measuring every size in feet.
+ */
+function zoneFromPolygon(
+  id: string,
+  type: IrrigableZone['type'] | IrrigationAreaType,
+  points: ImagePoint[],
+  widthFt: number,
+  lengthFt: number
+): IrrigableZone {
+  const feetPoints = points.map(p => normalizedToFeet(p, { widthFt, lengthFt }));
+  const bb = boundingBox(feetPoints);
+  const areaFt2 = areaOfPolygon(feetPoints);
+  const center = centroid(points);
+
+  return {
+    id,
+    type,
+    shape: classifyShape(type, points.length, areaFt2, bb.width * bb.height),
+    widthFt: Math.round(bb.width * 10) / 10,
+    lengthFt: Math.round(bb.height * 10) / 10,
+    areaFt2: Math.round(areaFt2),
+    exposure: 'full-sun',
+    slopeRatio: null,
+    centerX: center.x,
+    centerY: center.y,
+    boundaryPoints: points.map(p => ({ x: p.x, y: p.y })),
+  };
+}
+
+function classifyShape(
+  type: IrrigableZone['type'],
+  vertexCount: number,
+  areaFt2: number,
+  boxAreaFt2: number
+): IrrigableZone['shape'] {
+  if (type === 'tree-ring') return 'circular';
+  if (vertexCount === 3) return 'triangular';
+
+  const fill = boxAreaFt2 > 0 ? areaFt2 / boxAreaFt2 : 0;
+  if (fill > 0.9) return 'rectangular';
+  if (vertexCount === 6 && fill > 0.5) return 'L-shaped';
+  return 'irregular';
+}
+
+// ============================================================================
+// MARKED LOCATIONS
+// ============================================================================
+
+// Marked vs detected locations farther apart than this are flagged for review
+const LOCATION_CONFLICT_FT = 25;
+
+export interface LocationConflict {
+  label: string;
+  distanceFt: number;
+}
+
+/**
+ * Compare the user-marked controller and water source to the AI's detections.
+ * The marked point is always used for the design; this only surfaces
+ * disagreements worth a second look.
+ */
+export function findLocationConflicts(analysis: SiteAnalysis, markup?: ImageMarkup): LocationConflict[] {
+  const pairs: Array<[string, ImagePoint | undefined, NormalizedPoint | null]> = [
+    ['Water source', markup?.waterSourceLocation, analysis.waterSourceLocation],
+    ['Controller', markup?.controllerLocation, analysis.controllerLocation],
+  ];
+
+  const frame = siteFrame(analysis);
+  const conflicts: LocationConflict[] = [];
+  for (const [label, marked, detected] of pairs) {
+    if (!marked || !detected) continue;
+    const a = normalizedToFeet(marked, frame);
+    const b = normalizedToFeet(detected, frame);
+    const distanceFt = Math.hypot(a.x - b.x, a.y - b.y);
+    if (distanceFt > LOCATION_CONFLICT_FT) {
+      conflicts.push({ label, distanceFt: Math.round(distanceFt) });
+    }
+  }
+  return conflicts;
+}
+
+// ============================================================================
+// SPOT ELEVATIONS
+// ============================================================================
+
+/**
+ * Parse imported spot elevations, one `x,y,elevation` row per point with x
+ * and y in pixels of the marked image and elevation in feet. A non-numeric
+ * first row is taken as a header.
+ */
+export function parseSpotElevationCsv(text: string, imageWidthPx: number, imageHeightPx: number): SpotElevation[] {
+  if (!imageWidthPx || !imageHeightPx) {
+    throw new Error('Load the site image before importing spot elevations.');
+  }
+
+  const rows = text.split(/\r?\n/).map(r => r.trim()).filter(r => r.length > 0);
+  const spots: SpotElevation[] = [];
+  rows.forEach((row, i) => {
+    const values = row.split(/[,\t]/).map(v => parseFloat(v));
+    if (values.length < 3 || values.slice(0, 3).some(v => isNaN(v))) {
+      if (i === 0) return;
+      throw new Error(`Spot elevation row ${i + 1} is not x,y,elevation: "${row}"`);
+    }
+    const [x, y, elevationFt] = values;
+    if (x < 0 || x > imageWidthPx || y < 0 || y > imageHeightPx) {
+      throw new Error(`Spot elevation row ${i + 1} falls outside the ${imageWidthPx}x${imageHeightPx} image.`);
+    }
+    spots.push({ point: { x: x / imageWidthPx, y: y / imageHeightPx }, elevationFt });
+  });
+  return spots;
+}
@@ -5,7 +5,8 @@
  * 2D architectural SVG site plan with proper CAD-style rendering.
  */
 
-import { SiteAnalysis } from '../types';
+import { SiteAnalysis, NormalizedPoint, ImageMarkup } from '../types';
+import { SiteFrame, normalizedToFeet, siteFrame } from '../utils/coordinates';
 
 // ============================================================================
 // CAD-STYLE COLOR PALETTE
@@ -112,34 +113,17 @@ export const SITE_PLAN_COLORS = {
 // COORDINATE CONVERSION
 // ============================================================================
 
-/**
- * Convert normalized (0-1) coordinates to feet
- * The site analysis uses normalized coords where the property dimensions
- * tell us the actual feet measurements
- */
-function normalizedToFeet(
-  point: { x: number; y: number },
-  widthFt: number,
-  heightFt: number
-): { x: number; y: number } {
-  return {
-    x: point.x * widthFt,
-    y: point.y * heightFt,
-  };
-}
-
 /**
  * Convert an array of normalized boundary points to SVG polygon points string (in feet)
  */
 function boundaryToFeetPoints(
-  boundary: Array<{ x: number; y: number }>,
-  widthFt: number,
-  heightFt: number
+  boundary: NormalizedPoint[],
+  frame: SiteFrame
 ): string {
   if (!boundary || boundary.length === 0) return '';
   return boundary
     .map(p => {
-      const ft = normalizedToFeet(p, widthFt, heightFt);
+      const ft = normalizedToFeet(p, frame);
       return `${ft.x.toFixed(2)},${ft.y.toFixed(2)}`;
     })
     .join(' ');
@@ -149,14 +133,13 @@ function boundaryToFeetPoints(
  * Create a rectangle polygon points string from position and dimensions
  */
 function rectangleToPoints(
-  position: { x: number; y: number },
+  position: NormalizedPoint,
   widthFt: number,
   heightFt: number,
-  propWidthFt: number,
-  propHeightFt: number
+  frame: SiteFrame
 ): string {
   // Position is normalized center, convert to top-left corner in feet
-  const centerFt = normalizedToFeet(position, propWidthFt, propHeightFt);
+  const centerFt = normalizedToFeet(position, frame);
   const x = centerFt.x - widthFt / 2;
   const y = centerFt.y - heightFt / 2;
 
@@ -183,11 +166,16 @@ export interface SitePlanSvgData {
 
 /**
  * Generate site plan SVG from site analysis
- * Converts normalized coordinates to feet and creates CAD-style output
+ * Converts normalized coordinates to feet and creates CAD-style output.
+ * User-marked water source and controller points win over the AI's, as
+ * they do in the design engine.
  */
-export function generateSitePlanFromAnalysis(siteAnalysis: SiteAnalysis): string {
-  const widthFt = siteAnalysis.propertyWidthFt || 100;
-  const heightFt = siteAnalysis.propertyLengthFt || 100;
+export function generateSitePlanFromAnalysis(siteAnalysis: SiteAnalysis, markup?: ImageMarkup): string {
+  const frame = siteFrame(siteAnalysis);
+  const waterSource = markup?.waterSourceLocation || siteAnalysis.waterSourceLocation;
+  const controller = markup?.controllerLocation || siteAnalysis.controllerLocation;
+  const widthFt = frame.widthFt;
+  const heightFt = frame.lengthFt;
 
   // Convert all elements from normalized coords to feet
   const svgData: SitePlanSvgData = {
@@ -199,9 +187,9 @@ export function generateSitePlanFromAnalysis(siteAnalysis: SiteAnalysis): string
     buildings: siteAnalysis.structures.map((s, i) => {
       let points: string;
       if (s.boundaryPoints && s.boundaryPoints.length >= 3) {
-        points = boundaryToFeetPoints(s.boundaryPoints, widthFt, heightFt);
+        points = boundaryToFeetPoints(s.boundaryPoints, frame);
       } else {
-        points = rectangleToPoints(s.position, s.widthFt, s.lengthFt, widthFt, heightFt);
+        points = rectangleToPoints(s.position, s.widthFt, s.lengthFt, frame);
       }
       return {
         id: `building-${i}`,
@@ -214,13 +202,13 @@ export function generateSitePlanFromAnalysis(siteAnalysis: SiteAnalysis): string
     hardscape: siteAnalysis.hardscapeBoundaries.map((h, i) => ({
       id: `hardscape-${i}`,
       type: h.type,
-      points: boundaryToFeetPoints(h.boundaryPoints, widthFt, heightFt),
+      points: boundaryToFeetPoints(h.boundaryPoints, frame),
     })),
 
     // Turf zones
     turfAreas: siteAnalysis.turfZones.map(z => ({
       id: z.id,
-      points: boundaryToFeetPoints(z.boundaryPoints, widthFt, heightFt),
+      points: boundaryToFeetPoints(z.boundaryPoints, frame),
       label: z.id,
     })),
 
@@ -228,18 +216,18 @@ export function generateSitePlanFromAnalysis(siteAnalysis: SiteAnalysis): string
     bedAreas: siteAnalysis.bedZones.map(z => ({
       id: z.id,
       type: z.type,
-      points: boundaryToFeetPoints(z.boundaryPoints, widthFt, heightFt),
+      points: boundaryToFeetPoints(z.boundaryPoints, frame),
     })),
 
     // Narrow strips
     narrowStrips: siteAnalysis.narrowStrips.map(z => ({
       id: z.id,
-      points: boundaryToFeetPoints(z.boundaryPoints, widthFt, heightFt),
+      points: boundaryToFeetPoints(z.boundaryPoints, frame),
     })),
 
     // Trees - convert position to feet, radius stays in feet
     trees: siteAnalysis.treeCanopyAreas.map((t, i) => {
-      const posFt = normalizedToFeet(t.position, widthFt, heightFt);
+      const posFt = normalizedToFeet(t.position, frame);
       return {
         id: `tree-${i}`,
         cx: posFt.x,
@@ -249,14 +237,10 @@ export function generateSitePlanFromAnalysis(siteAnalysis: SiteAnalysis): string
     }),
 
     // Water source
-    waterSource: siteAnalysis.waterSourceLocation
-      ? normalizedToFeet(siteAnalysis.waterSourceLocation, widthFt, heightFt)
-      : undefined,
+    waterSource: waterSource ? normalizedToFeet(waterSource, frame) : undefined,
 
     // Controller
-    controllerLocation: siteAnalysis.controllerLocation
-      ? normalizedToFeet(siteAnalysis.controllerLocation, widthFt, heightFt)
-      : undefined,
+    controllerLocation: controller ? normalizedToFeet(controller, frame) : undefined,
   };
 
   return renderSitePlanSvg(svgData);
@@ -11,12 +11,29 @@ export enum WorkflowStatus {
   ERROR = 'ERROR',
 }
 
-// Point on image (normalized 0-1 coordinates)
-export interface ImagePoint {
+// Coordinate spaces (see utils/coordinates.ts). The optional brand lets plain
+// {x, y} literals through but rejects a point tagged with a different space.
+export interface NormalizedPoint {
   x: number; // 0-1 (percentage of image width)
   y: number; // 0-1 (percentage of image height)
+  readonly __space?: 'normalized';
+}
+
+export interface SiteFeetPoint {
+  x: number; // feet from the left property edge
+  y: number; // feet from the top property edge
+  readonly __space?: 'site-ft';
+}
+
+export interface SheetPoint {
+  x: number;
+  y: number;
+  readonly __space?: 'sheet';
 }
 
+// Point on image (normalized 0-1 coordinates)
+export type ImagePoint = NormalizedPoint;
+
 // Scale reference from two marked points
 export interface ScaleReference {
   point1: ImagePoint;
@@ -24,14 +41,30 @@ export interface ScaleReference {
   distanceFt: number;
 }
 
+export type IrrigationAreaType = 'turf' | 'bed' | 'narrow-strip' | 'tree-ring';
+
+// Surveyed or estimated grade at a marked point, in feet above any common datum
+export interface SpotElevation {
+  point: ImagePoint;
+  elevationFt: number;
+}
+
 // User markup on the image
 export interface ImageMarkup {
   scaleReference?: ScaleReference;
   controllerLocation?: ImagePoint;
   waterSourceLocation?: ImagePoint;
   irrigationAreas?: ImagePoint[][]; // Array of polygons (each polygon is array of points)
+  irrigationAreaTypes?: Array<IrrigationAreaType | null>; // Parallel to irrigationAreas; null = let the AI classify
+  useIrrigationAreasAsZones?: boolean; // Traced areas replace the AI-detected zones
+  spotElevations?: SpotElevation[];
+  // Natural pixel size of the marked image (needed to turn normalized points into real distances)
+  imageWidthPx?: number;
+  imageHeightPx?: number;
 }
 
+export type WiringMode = 'conventional' | 'two-wire';
+
 export interface ProjectInput {
   projectName: string;
   waterSupplySize: 0.75 | 1 | 1.5 | 2;
@@ -39,6 +72,7 @@ export interface ProjectInput {
   soilType: 'clay' | 'loam' | 'sand';
   turfType: 'bermudagrass' | 'fescue' | 'zoysia' | 'centipede' | 'st-augustine';
   applicationType: 'commercial' | 'multifamily' | 'athletic-field' | 'hoa-common-area';
+  wiringMode?: WiringMode; // conventional multi-wire when unset
   droneImageBase64: string;
   droneImageMimeType: string;
   droneImagePreviewUrl: string;
@@ -55,11 +89,12 @@ export interface IrrigableZone {
   areaFt2: number;
   exposure: 'full-sun' | 'partial-shade' | 'full-shade';
   slopeRatio: string | null;
-  centerX: number;
-  centerY: number;
-  boundaryPoints: Array<{ x: number; y: number }>;
+  centerX: number; // normalized
+  centerY: number; // normalized
+  boundaryPoints: NormalizedPoint[];
 }
 
+// Locations are normalized image coordinates; *Ft fields are feet
 export interface SiteAnalysis {
   totalIrrigableSqFt: number;
   propertyWidthFt: number;
@@ -69,47 +104,66 @@ export interface SiteAnalysis {
   narrowStrips: IrrigableZone[];
   hardscapeBoundaries: Array<{
     type: 'walkway' | 'driveway' | 'parking' | 'building' | 'patio' | 'other';
-    boundaryPoints: Array<{ x: number; y: number }>;
+    boundaryPoints: NormalizedPoint[];
   }>;
   structures: Array<{
     type: string;
-    position: { x: number; y: number };
+    position: NormalizedPoint;
     widthFt: number;
     lengthFt: number;
-    boundaryPoints?: Array<{ x: number; y: number }>;
+    boundaryPoints?: NormalizedPoint[];
   }>;
   slopeIndicators: Array<{
-    location: { x: number; y: number };
+    location: NormalizedPoint;
     direction: string;
     ratio: string;
   }>;
   treeCanopyAreas: Array<{
-    position: { x: number; y: number };
+    position: NormalizedPoint;
     radiusFt: number;
   }>;
-  waterSourceLocation: { x: number; y: number } | null;
-  controllerLocation: { x: number; y: number } | null;
-  nearestBuildingLocation: { x: number; y: number };
+  waterSourceLocation: NormalizedPoint | null;
+  controllerLocation: NormalizedPoint | null;
+  nearestBuildingLocation: NormalizedPoint;
+  calibration?: SiteCalibration;
+}
+
+// Result of rescaling the AI analysis against the user's scale reference
+export interface SiteCalibration {
+  pixelsPerFoot: number;
+  imageWidthPx: number;
+  imageHeightPx: number;
+  aspectRatioAssumed: boolean;
+  aiPropertyWidthFt: number;
+  aiPropertyLengthFt: number;
+  aiTotalIrrigableSqFt: number;
+  widthErrorPct: number;   // + means the AI overestimated
+  lengthErrorPct: number;
+  areaErrorPct: number;
 }
 
 export interface HeadPlacement {
   id: string;
-  x: number;
+  x: number; // site feet
   y: number;
   type: 'rotor' | 'spray' | 'rotary-nozzle' | 'drip' | 'strip' | 'quick-coupler';
   model: string;
   manufacturer: string;
   arc: number;
+  rotation: number; // degrees clockwise from +x where the arc starts; sweeps clockwise
   radiusFt: number;
   gpm: number;
   psi: number;
   nozzle: string;
   zoneId: string;
+  sourceAreaId?: string; // irrigable zone the head was laid out for
+  elevationFt?: number; // above (+) or below (-) the POC
+  checkValve?: boolean; // needs an in-line check valve against low-head drainage
 }
 
 export interface PipeSegment {
   id: string;
-  startX: number;
+  startX: number; // site feet
   startY: number;
   endX: number;
   endY: number;
@@ -119,6 +173,142 @@ export interface PipeSegment {
   zoneId: string | null;
 }
 
+// PVC sleeve laid under paving ahead of the pour; ends run past the paving edge
+export interface Sleeve {
+  id: string;
+  startX: number; // site feet
+  startY: number;
+  endX: number;
+  endY: number;
+  sizeIn: number;
+  lengthFt: number;
+  carries: PipeSegment['type'] | 'wire';
+  carrierSizeIn: number | null; // pipe size; null for control wire
+  pipeId: string | null;
+  surface: string; // hardscape type(s) crossed
+}
+
+export interface WireRun {
+  valveId: string;
+  zoneId: string | null; // null for the master valve
+  controllerId: string;
+  path: SiteFeetPoint[]; // controller to valve, in the mainline trench where there is one
+  lengthFt: number;
+  gaugeAWG: number;
+  inrushVAC: number;     // at the solenoid as it opens
+  holdingVAC: number;
+}
+
+export interface WireSegment {
+  startX: number; // site feet
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+export interface SpliceBox {
+  id: string;
+  x: number; // site feet
+  y: number;
+}
+
+// Spare conductors run from the controller and coiled in a manifold's valve box
+export interface SpareWires {
+  valveIds: string[];
+  x: number;
+  y: number;
+  count: number;
+  gaugeAWG: number;
+  lengthFt: number; // per conductor
+}
+
+export interface WiringPlan {
+  runs: WireRun[];
+  segments: WireSegment[]; // every trench the wire bundle occupies
+  commons: Array<{ controllerId: string; gaugeAWG: number; lengthFt: number }>; // one per controller
+  spliceBoxes: SpliceBox[];
+  spares: SpareWires[];
+  totals: Array<{ use: 'zone' | 'common' | 'spare'; gaugeAWG: number; lengthFt: number }>;
+}
+
+export interface FlowSensorPlacement {
+  x: number; // site feet, on the mainline below the master valve
+  y: number;
+  manufacturer: string;
+  model: string;
+  sizeIn: number;
+  minGPM: number;
+  maxGPM: number;
+  upstreamRunFt: number; // pipe between the master valve and the sensor; short only when a tee comes first
+}
+
+export interface ZoneFlowAlarm {
+  zoneId: string;
+  expectedGPM: number; // design flow, to check the learned value against
+  lowAlarmGPM: number;
+  highAlarmGPM: number;
+  belowSensorRange: boolean;
+}
+
+export interface FlowMonitoring {
+  sensor: FlowSensorPlacement;
+  zones: ZoneFlowAlarm[];
+  notes: string[];
+}
+
+export interface ControllerUnit {
+  id: string;
+  model: string;
+  x: number; // site feet
+  y: number;
+  modules: string[];       // expansion modules, by model
+  stationCapacity: number; // base plus modules
+  zoneStations: number;
+  masterValveStation: number | null;
+  flowSensorStation: number | null;
+  spareStations: number;
+}
+
+export interface ValveBox {
+  id: string;
+  type: 'jumbo' | 'rectangular';
+  x: number; // site feet
+  y: number;
+  valveIds: string[];
+}
+
+export interface DecoderOutput {
+  address: number;       // station on the decoder's controller
+  valveId: string;
+  zoneId: string | null; // null for the master valve
+}
+
+export interface Decoder {
+  id: string;
+  model: string;
+  controllerId: string; // whose two-wire path it sits on
+  x: number; // site feet, in the valve box it serves
+  y: number;
+  outputs: DecoderOutput[];
+}
+
+export interface SurgeArrestor {
+  id: string;
+  x: number; // site feet
+  y: number;
+  decoderId: string | null; // sharing a decoder's valve box, or on its own
+}
+
+export interface TwoWirePlan {
+  cable: { manufacturer: string; model: string; gaugeAWG: number; lengthFt: number };
+  segments: WireSegment[];
+  longestPathFt: number;
+  decoders: Decoder[];
+  surgeArrestors: SurgeArrestor[];
+  groundRods: number; // one per arrestor plus one per controller
+  spliceBoxes: SpliceBox[];
+}
+
 export interface Zone {
   id: string;
   number: number;
@@ -131,6 +321,116 @@ export interface Zone {
   color: string;
   valveModel: string;
   valveSize: number;
+  controllerId?: string;
+  station?: number;
+}
+
+export interface SupplyCapacity {
+  meterSafeGPM: number;       // share of the meter's rated flow allowed by the 75% rule
+  serviceLineGPM: number;     // service line at the velocity limit
+  pressureLimitedGPM: number; // flow at which meter loss leaves the minimum operating pressure
+  availableGPM: number;
+  limitedBy: 'meter' | 'service-line' | 'pressure';
+}
+
+export interface SegmentHydraulics {
+  pipeId: string;
+  flowGPM: number;
+  velocityFPS: number;
+  frictionLossPSI: number; // pipe run plus fitting equivalent lengths
+}
+
+export interface ZoneHydraulics {
+  zoneId: string;
+  flowGPM: number;
+  valveInletPSI: number;
+  valveOutletPSI: number;        // after the valve and any regulator on it
+  criticalHeadId: string | null; // head with the least pressure above its nozzle minimum
+  criticalHeadPSI: number;
+  minimumPSI: number;            // nozzle minimum at the critical head
+  criticalPath: {
+    meterLossPSI: number;
+    backflowLossPSI: number;
+    boosterGainPSI: number;
+    mainlineLossPSI: number;
+    valveLossPSI: number;
+    regulatorLossPSI: number;
+    lateralLossPSI: number;
+    elevationPSI: number; // gain from POC to the critical head, negative uphill
+  };
+  maxVelocityFPS: number;
+  adequate: boolean;
+  segments: SegmentHydraulics[];
+}
+
+export interface HydraulicReport {
+  staticPSI: number;
+  supplyPSI: number; // after meter, backflow preventer and any booster
+  zones: ZoneHydraulics[];
+}
+
+// Pressure-regulating module on a zone valve
+export interface ZoneRegulator {
+  zoneId: string;
+  valveId: string;
+  model: string;
+  setPSI: number;
+}
+
+export interface BoosterPump {
+  manufacturer: string;
+  model: string;
+  horsepower: number;
+  requiredGPM: number;
+  requiredTDHFt: number;
+  boostPSI: number;
+  voltage: number;
+  phase: 1 | 3;
+  fullLoadAmps: number;
+  breakerAmps: number;
+  electricalNote: string;
+}
+
+export interface PressureManagement {
+  regulators: ZoneRegulator[];
+  prsHeadIds: string[]; // heads moved to a pressure-regulating body
+  booster: BoosterPump | null;
+  notes: string[]; // installation notes for the plan
+}
+
+export interface DrySpot {
+  x: number; // site feet, centroid of the dry cells
+  y: number;
+  areaFt2: number;
+}
+
+export interface CoverageCell {
+  x: number; // site feet, cell center
+  y: number;
+  precipInPerHr: number;
+  status: 'dry' | 'even' | 'wet';
+}
+
+export interface AreaCoverage {
+  areaId: string;
+  zoneIds: string[];
+  cellSizeFt: number;
+  avgPrecipInPerHr: number;
+  duLowQuarter: number;
+  schedulingCoefficient: number | null; // null when the driest cells catch no water
+  headToHeadPct: number;
+  drySpots: DrySpot[];
+  cells: CoverageCell[];
+  passes: {
+    duLowQuarter: boolean;
+    schedulingCoefficient: boolean;
+    headToHead: boolean;
+  };
+}
+
+export interface CoverageReport {
+  areas: AreaCoverage[];
+  passes: boolean;
 }
 
 export interface MaterialScheduleItem {
@@ -141,6 +441,9 @@ export interface MaterialScheduleItem {
   unit: string;
 }
 
+// Where the design's elevations came from
+export type GradeSource = 'spot-elevations' | 'slope-indicators' | 'flat';
+
 export interface IrrigationDesign {
   heads: HeadPlacement[];
   pipes: PipeSegment[];
@@ -153,7 +456,11 @@ export interface IrrigationDesign {
     size: number;
     type: 'zone' | 'master';
     zoneId: string | null;
+    boxId?: string;
   }>;
+  valveBoxes?: ValveBox[];
+  controllers?: ControllerUnit[];
+  flowMonitoring?: FlowMonitoring;
   controller: {
     x: number;
     y: number;
@@ -178,6 +485,14 @@ export interface IrrigationDesign {
   zoneSchedule: Zone[];
   totalSystemGPM: number;
   totalZones: number;
+  supply?: SupplyCapacity;
+  gradeSource?: GradeSource;
+  hydraulics?: HydraulicReport;
+  pressure?: PressureManagement;
+  sleeves?: Sleeve[];
+  wiring?: WiringPlan;
+  twoWire?: TwoWirePlan;
+  coverage?: CoverageReport;
 }
 
 export interface PlanSheet {
@@ -192,6 +507,7 @@ export interface AppState {
   siteAnalysis: SiteAnalysis | null;
   sitePlanSvg: string | null;
   irrigationSvg: string | null;
+  heatmapSvg: string | null;
   design: IrrigationDesign | null;
   planSheets: PlanSheet[];
   status: WorkflowStatus;
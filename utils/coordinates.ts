@@ -0,0 +1,77 @@
+import { IrrigableZone, NormalizedPoint, SiteFeetPoint, SheetPoint, SiteAnalysis } from '../types';
+
+/*
+ * Three coordinate spaces, converted only through this module:
+ *   normalized - 0-1 fractions of the drone image (SiteAnalysis, ImageMarkup)
+ *   site-ft    - feet from the top-left of the property (engine, site plan)
+ *   sheet      - SVG units on an ARCH D plan sheet (renderers, compositor)
+ */
+
+export interface SiteFrame {
+  widthFt: number;
+  lengthFt: number;
+}
+
+export interface SheetTransform {
+  pixelsPerFoot: number;
+  originX: number;
+  originY: number;
+}
+
+// Irrigable zone with its geometry converted to site feet
+export interface SiteZone extends Omit<IrrigableZone, 'boundaryPoints' | 'centerX' | 'centerY'> {
+  boundary: SiteFeetPoint[];
+  center: SiteFeetPoint;
+}
+
+export function siteFrame(siteAnalysis: SiteAnalysis): SiteFrame {
+  return {
+    widthFt: siteAnalysis.propertyWidthFt || 100,
+    lengthFt: siteAnalysis.propertyLengthFt || 100,
+  };
+}
+
+export function normalizedToFeet(point: NormalizedPoint, frame: SiteFrame): SiteFeetPoint {
+  return { x: point.x * frame.widthFt, y: point.y * frame.lengthFt };
+}
+
+export function feetToNormalized(point: SiteFeetPoint, frame: SiteFrame): NormalizedPoint {
+  return { x: point.x / frame.widthFt, y: point.y / frame.lengthFt };
+}
+
+export function zoneToFeet(zone: IrrigableZone, frame: SiteFrame): SiteZone {
+  const { boundaryPoints, centerX, centerY, ...rest } = zone;
+  return {
+    ...rest,
+    boundary: (boundaryPoints || []).map(p => normalizedToFeet(p, frame)),
+    center: normalizedToFeet({ x: centerX, y: centerY }, frame),
+  };
+}
+
+export function createSheetTransform(pixelsPerFoot: number, origin: { x: number; y: number }): SheetTransform {
+  return { pixelsPerFoot, originX: origin.x, originY: origin.y };
+}
+
+export function feetToSheet(transform: SheetTransform, point: SiteFeetPoint): SheetPoint {
+  return {
+    x: transform.originX + point.x * transform.pixelsPerFoot,
+    y: transform.originY + point.y * transform.pixelsPerFoot,
+  };
+}
+
+export function sheetX(transform: SheetTransform, ft: number): number {
+  return transform.originX + ft * transform.pixelsPerFoot;
+}
+
+export function sheetY(transform: SheetTransform, ft: number): number {
+  return transform.originY + ft * transform.pixelsPerFoot;
+}
+
+export function sheetLength(transform: SheetTransform, ft: number): number {
+  return ft * transform.pixelsPerFoot;
+}
+
+// SVG transform attribute that places a feet-unit drawing (the site plan) on the sheet
+export function sheetTransformAttr(transform: SheetTransform): string {
+  return `translate(${transform.originX}, ${transform.originY}) scale(${transform.pixelsPerFoot})`;
+}
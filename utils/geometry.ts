@@ -100,3 +100,266 @@ export function pathLength(points: Point[]): number {
   }
   return total;
 }
+
+export function isConvexPolygon(points: Point[]): boolean {
+  const n = points.length;
+  if (n < 4) return n === 3;
+  let sign = 0;
+  for (let i = 0; i < n; i++) {
+    const a = points[i], b = points[(i + 1) % n], c = points[(i + 2) % n];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) continue;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
+
+// Sutherland-Hodgman: clip `subject` to the inside of a convex `clip` polygon
+export function clipPolygon(subject: Point[], clip: Point[]): Point[] {
+  // Inside test depends on clip winding, so normalize it
+  const orientation = signedArea(clip) >= 0 ? 1 : -1;
+  let output = subject;
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    output = clipToHalfPlane(output, clip[i], clip[(i + 1) % clip.length], orientation);
+  }
+  return output;
+}
+
+// Convex pieces covering what is left of convex `subject` once convex `hole` is cut out
+export function subtractConvexPolygon(subject: Point[], hole: Point[]): Point[][] {
+  const orientation = signedArea(hole) >= 0 ? 1 : -1;
+  const pieces: Point[][] = [];
+  let rest = subject;
+  for (let i = 0; i < hole.length && rest.length >= 3; i++) {
+    const a = hole[i], b = hole[(i + 1) % hole.length];
+    const outside = clipToHalfPlane(rest, a, b, -orientation);
+    if (outside.length >= 3 && areaOfPolygon(outside) > 0) pieces.push(outside);
+    rest = clipToHalfPlane(rest, a, b, orientation);
+  }
+  return rest.length >= 3 && areaOfPolygon(rest) > 0 ? pieces : [subject];
+}
+
+/**
+ * Splits a simple polygon into convex parts: ear-clips it into triangles,
+ * then removes every diagonal whose two sides still join into a convex part
+ * (Hertel-Mehlhorn). Parts come back counterclockwise.
+ */
+export function convexParts(polygon: Point[]): Point[][] {
+  const outline = dropStraightVertices(polygon, 0);
+  const pts = signedArea(outline) < 0 ? [...outline].reverse() : outline;
+  if (pts.length < 3) return [];
+  if (isConvexPolygon(pts)) return [pts];
+
+  const cross = (a: Point, b: Point, c: Point) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+  const inTriangle = (p: Point, a: Point, b: Point, c: Point) =>
+    cross(a, b, p) > 0 && cross(b, c, p) > 0 && cross(c, a, p) >= 0;
+
+  const parts: number[][] = [];
+  const remaining = pts.map((_, i) => i);
+  while (remaining.length > 3) {
+    const n = remaining.length;
+    let ear = -1;
+    for (let k = 0; k < n && ear < 0; k++) {
+      const [i, j, l] = [remaining[(k + n - 1) % n], remaining[k], remaining[(k + 1) % n]];
+      if (cross(pts[i], pts[j], pts[l]) <= 0) continue;
+      const blocked = remaining.some(m => m !== i && m !== j && m !== l && inTriangle(pts[m], pts[i], pts[j], pts[l]));
+      if (!blocked) ear = k;
+    }
+    // Self-touching or degenerate outline: fan out what is left
+    if (ear < 0) break;
+    parts.push([remaining[(ear + n - 1) % n], remaining[ear], remaining[(ear + 1) % n]]);
+    remaining.splice(ear, 1);
+  }
+  for (let k = 1; k + 1 < remaining.length; k++) parts.push([remaining[0], remaining[k], remaining[k + 1]]);
+
+  for (let merged = true; merged;) {
+    merged = false;
+    for (let a = 0; a < parts.length && !merged; a++) {
+      for (let b = a + 1; b < parts.length && !merged; b++) {
+        const joined = joinAcrossDiagonal(parts[a], parts[b]);
+        if (joined && isConvexPolygon(joined.map(i => pts[i]))) {
+          parts[a] = joined;
+          parts.splice(b, 1);
+          merged = true;
+        }
+      }
+    }
+  }
+  return parts.map(part => part.map(i => pts[i]));
+}
+
+/**
+ * Outline of non-overlapping polygons, such as the pieces of a split: edges
+ * two pieces share cancel, even where one piece's edge meets several of its
+ * neighbour's, and the rest chain into rings. Counterclockwise rings are
+ * outlines, clockwise ones are holes.
+ */
+export function mergePolygons(pieces: Point[][], epsilon = 1e-9): Point[][] {
+  const vertices: Point[] = [];
+  const vertexOf = (p: Point) => {
+    const found = vertices.findIndex(v => distance(v, p) <= epsilon);
+    if (found >= 0) return found;
+    vertices.push(p);
+    return vertices.length - 1;
+  };
+  const rings = pieces
+    .filter(piece => piece.length >= 3 && areaOfPolygon(piece) > 0)
+    .map(piece => (signedArea(piece) < 0 ? [...piece].reverse() : piece).map(vertexOf));
+
+  // Split every edge where another piece's corner sits on it
+  const edges = new Map<string, number>();
+  for (const ring of rings) {
+    for (let k = 0; k < ring.length; k++) {
+      const a = ring[k], b = ring[(k + 1) % ring.length];
+      if (a === b) continue;
+      const along = (v: number) => {
+        const dx = vertices[b].x - vertices[a].x, dy = vertices[b].y - vertices[a].y;
+        return ((vertices[v].x - vertices[a].x) * dx + (vertices[v].y - vertices[a].y) * dy) / (dx * dx + dy * dy);
+      };
+      const stops = vertices
+        .map((_, v) => v)
+        .filter(v => v !== a && v !== b && distanceToSegment(vertices[v], vertices[a], vertices[b]) <= epsilon)
+        .sort((m, n) => along(m) - along(n));
+      const chain = [a, ...stops, b];
+      for (let c = 1; c < chain.length; c++) {
+        const key = `${chain[c - 1]}>${chain[c]}`;
+        const reverse = `${chain[c]}>${chain[c - 1]}`;
+        if (edges.get(reverse)) edges.set(reverse, edges.get(reverse)! - 1);
+        else edges.set(key, (edges.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const outgoing = new Map<number, number[]>();
+  for (const [key, count] of edges) {
+    const [a, b] = key.split('>').map(Number);
+    for (let c = 0; c < count; c++) outgoing.set(a, [...(outgoing.get(a) ?? []), b]);
+  }
+
+  const result: Point[][] = [];
+  for (const start of [...outgoing.keys()]) {
+    while ((outgoing.get(start) ?? []).length > 0) {
+      const ring = [start];
+      let at = outgoing.get(start)!.shift()!;
+      while (at !== start && (outgoing.get(at) ?? []).length > 0) {
+        ring.push(at);
+        at = outgoing.get(at)!.shift()!;
+      }
+      const simplified = dropStraightVertices(ring.map(v => vertices[v]), epsilon);
+      if (simplified.length >= 3) result.push(simplified);
+    }
+  }
+  return result;
+}
+
+// Twice the signed area: positive when counterclockwise in x-right, y-up axes
+export function signedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y - points[j].x * points[i].y;
+  }
+  return area;
+}
+
+function clipToHalfPlane(input: Point[], a: Point, b: Point, orientation: number): Point[] {
+  const inside = (p: Point) => orientation * ((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x)) >= 0;
+  const intersect = (p: Point, q: Point): Point => {
+    const d = (p.x - q.x) * (a.y - b.y) - (p.y - q.y) * (a.x - b.x);
+    if (d === 0) return q;
+    const t = ((p.x - a.x) * (a.y - b.y) - (p.y - a.y) * (a.x - b.x)) / d;
+    return { x: p.x + t * (q.x - p.x), y: p.y + t * (q.y - p.y) };
+  };
+
+  const output: Point[] = [];
+  for (let j = 0; j < input.length; j++) {
+    const current = input[j];
+    const prev = input[(j + input.length - 1) % input.length];
+    if (inside(current)) {
+      if (!inside(prev)) output.push(intersect(prev, current));
+      output.push(current);
+    } else if (inside(prev)) {
+      output.push(intersect(prev, current));
+    }
+  }
+  return output;
+}
+
+// Two index rings that share an edge (u→v in one, v→u in the other) joined into one
+function joinAcrossDiagonal(a: number[], b: number[]): number[] | null {
+  for (let i = 0; i < a.length; i++) {
+    const u = a[i], v = a[(i + 1) % a.length];
+    const j = b.indexOf(v);
+    if (j < 0 || b[(j + 1) % b.length] !== u) continue;
+    const fromV = [...a.slice(i + 1), ...a.slice(0, i + 1)];
+    const fromU = [...b.slice(j + 1), ...b.slice(0, j + 1)];
+    return [...fromV, ...fromU.slice(1, -1)];
+  }
+  return null;
+}
+
+// Drop corners that do not turn: points on the line through their neighbours, spikes included
+function dropStraightVertices(ring: Point[], epsilon: number): Point[] {
+  const pts = [...ring];
+  for (let changed = true; changed && pts.length >= 3;) {
+    changed = false;
+    for (let i = 0; i < pts.length && pts.length >= 3; i++) {
+      const prev = pts[(i + pts.length - 1) % pts.length], next = pts[(i + 1) % pts.length];
+      const span = distance(prev, next);
+      const offLine = span === 0 ? 0
+        : Math.abs((next.x - prev.x) * (pts[i].y - prev.y) - (next.y - prev.y) * (pts[i].x - prev.x)) / span;
+      if (span <= epsilon || offLine <= epsilon) {
+        pts.splice(i, 1);
+        changed = true;
+      }
+    }
+  }
+  return pts;
+}
+
+export function closestPointOnSegment(p: Point, a: Point, b: Point): Point {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lenSq = dx * dx + dy * dy;
+  if (lenSq === 0) return { x: a.x, y: a.y };
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lenSq));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  return distance(p, closestPointOnSegment(p, a, b));
+}
+
+export function distanceToPolygonEdge(p: Point, polygon: Point[]): number {
+  let min = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    min = Math.min(min, distanceToSegment(p, polygon[i], polygon[(i + 1) % polygon.length]));
+  }
+  return min;
+}
+
+// Stretches of the segment a→b inside the polygon, as [start, end] fractions of its length
+export function segmentIntervalsInPolygon(a: Point, b: Point, polygon: Point[]): Array<[number, number]> {
+  const cuts = [0, 1];
+  const dx = b.x - a.x, dy = b.y - a.y;
+  for (let i = 0; i < polygon.length; i++) {
+    const p = polygon[i], q = polygon[(i + 1) % polygon.length];
+    const ex = q.x - p.x, ey = q.y - p.y;
+    const denom = dx * ey - dy * ex;
+    if (denom === 0) continue;
+    const t = ((p.x - a.x) * ey - (p.y - a.y) * ex) / denom;
+    const u = ((p.x - a.x) * dy - (p.y - a.y) * dx) / denom;
+    if (t > 0 && t < 1 && u >= 0 && u <= 1) cuts.push(t);
+  }
+  cuts.sort((m, n) => m - n);
+
+  const intervals: Array<[number, number]> = [];
+  for (let i = 1; i < cuts.length; i++) {
+    const mid = (cuts[i - 1] + cuts[i]) / 2;
+    if (cuts[i] - cuts[i - 1] <= 0 || !isPointInPolygon({ x: a.x + dx * mid, y: a.y + dy * mid }, polygon)) continue;
+    const last = intervals[intervals.length - 1];
+    if (last && last[1] === cuts[i - 1]) last[1] = cuts[i];
+    else intervals.push([cuts[i - 1], cuts[i]]);
+  }
+  return intervals;
+}